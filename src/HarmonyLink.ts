@@ -1,8 +1,8 @@
+/* eslint-disable @typescript-eslint/no-unsafe-declaration-merging */
 import EventEmitter from "events";
 
 // Abstract Classes
 import AbstractLibraryClass from "@/librarys/AbstractLibraryClass";
-import AbstractNodeDriver from "@/nodeDriver/AbstractNodeDriver";
 
 // Managers
 import NodeManager from "@/managers/NodeManager";
@@ -14,17 +14,33 @@ import NodeLink from "@/nodeDriver/NodeLink";
 import FrequenC from "@/nodeDriver/FrequenC";
 
 // Classes
+import { Node } from "@/node/Node";
 import { Response } from "@/player/Response";
+import { SearchCache } from "@/utils/SearchCache";
 
 // Constants
 import { config } from "@/constants";
+import { defaultFilterPresets } from "@/constants/filters";
+
+// Utils
+import { getSourceManager } from "@/utils";
 
 // Types
 import { Config } from "@t/constants";
-import { HarmonyLinkConfiguration } from "@t/HarmonyLink";
-import { NodeGroup } from "@t/node";
-import { Node } from "@/node/Node";
+import { HarmonyLinkConfiguration, HarmonyLinkDestroyOptions, HarmonyLinkEvents, NodeDriverConstructor } from "@t/HarmonyLink";
+import { NodeGroup, NodeType } from "@t/node";
 import { ResolveOptions } from "@t/player";
+import { FilterPreset } from "@t/player/filters";
+
+export declare interface HarmonyLink {
+    on: <K extends keyof HarmonyLinkEvents>(event: K, listener: HarmonyLinkEvents[K]) => this;
+    once: <K extends keyof HarmonyLinkEvents>(event: K, listener: HarmonyLinkEvents[K]) => this;
+    emit: <K extends keyof HarmonyLinkEvents>(
+        event: K,
+        ...args: Parameters<HarmonyLinkEvents[K]>
+    ) => boolean;
+    off: <K extends keyof HarmonyLinkEvents>(event: K, listener: HarmonyLinkEvents[K]) => this;
+}
 
 export class HarmonyLink extends EventEmitter {
     public botID: string = "";
@@ -34,7 +50,9 @@ export class HarmonyLink extends EventEmitter {
     public readonly library: AbstractLibraryClass;
     public readonly nodes: NodeGroup[];
     public readonly options: Omit<HarmonyLinkConfiguration, "defaultPlatform" | "nodes"> & { defaultPlatform: string; nodes?: NodeGroup[] };
-    public readonly drivers: AbstractNodeDriver[] = []; 
+    public readonly drivers = new Map<NodeType | string, NodeDriverConstructor>();
+    public readonly presets = new Map<string, FilterPreset>();
+    public readonly searchCache: SearchCache | null = null;
 
     /* Managers */
     public readonly nodeManager = new NodeManager(this)
@@ -55,24 +73,154 @@ export class HarmonyLink extends EventEmitter {
 
         delete this.options.nodes;
 
-        this.drivers = [new LavalinkV4(), new NodeLink(), new FrequenC(), ...(options.additionalDriver ?? [])];
+        if (options.searchCache) this.searchCache = new SearchCache(options.searchCache);
+
+        this.registerDriver(NodeType.LavaLinkV4, LavalinkV4)
+            .registerDriver(NodeType.NodeLink, NodeLink)
+            .registerDriver(NodeType.FrequenC, FrequenC);
+
+        for (const [type, driver] of Object.entries(options.additionalDriver ?? {})) {
+            this.registerDriver(type, driver);
+        };
+
+        for (const [name, preset] of Object.entries({ ...defaultFilterPresets, ...options.filterPresets })) {
+            this.registerPreset(name, preset);
+        };
 
         // Listen for updates in the ws on the client
         this.library.listen(this.nodes);
     };
 
+    /**
+     * Registers a node driver. Nodes added afterwards with this type get their own instance of the driver.
+     * @param {NodeType | string} type - The node type the driver is used for. Existing drivers for the same type are overwritten.
+     * @param {NodeDriverConstructor} driver - The driver class, extending `AbstractNodeDriver`.
+     * @returns {HarmonyLink} The HarmonyLink instance.
+     */
+    public registerDriver(type: NodeType | string, driver: NodeDriverConstructor): this {
+        this.drivers.set(type, driver);
+        return this;
+    };
+
+    /**
+     * Registers a filter preset which can be applied on players with `<Player>.applyPreset()`.
+     * @param {string} name - The name of the preset. Existing presets with the same name are overwritten.
+     * @param {FilterPreset} preset - The filters of the preset.
+     * @returns {HarmonyLink} The HarmonyLink instance.
+     */
+    public registerPreset(name: string, preset: FilterPreset): this {
+        this.presets.set(name.toLowerCase(), preset);
+        return this;
+    };
+
     /**
      * Resolves a track.
+     * When `resolveFallback` is configured, the other online nodes and the fallback sources are tried until one returns results.
      * @param {ResolveOptions} options - Options for resolving tracks.
      * @param {Node} [node] - Node to use for resolution.
-     * @returns {Promise<Response>} The response containing resolved tracks.
+     * @returns {Promise<Response>} The response containing resolved tracks and the node and source that answered.
      */
     public async resolve({ query, source, requester}: ResolveOptions, node?: Node): Promise<Response> {
-        if (!node) node = await this.nodeManager.getLeastUsedNode();
-        if (!node) throw new Error("No nodes available to resolve from");
+        const { resolveFallback } = this.options;
+        const isURL = /^https?:\/\//.test(query);
+
+        // Alternative sources make no sense for URLs, as the URL decides the source.
+        const sources = [...new Set([source ?? this.options.defaultPlatform, ...(isURL ? [] : resolveFallback?.sources ?? [])])];
+
+        let lastResponse: Response | null = null;
+        let lastError: Error | null = null;
+
+        for (const currentSource of sources) {
+            let nodes: Node[];
+
+            try {
+                nodes = await this.getResolveNodes(query, currentSource, node, resolveFallback?.nodes ?? Boolean(resolveFallback));
+            } catch (err) {
+                if (!resolveFallback) throw err;
+
+                lastError = err as Error;
+                continue;
+            };
+
+            for (const resolveNode of nodes) {
+                try {
+                    const result = await resolveNode.rest.loadTrack(query, currentSource);
+                    lastResponse = new Response(result, requester, resolveNode, currentSource);
+
+                    if (!resolveFallback || !["error", "empty"].includes(result.loadType)) return lastResponse;
+                } catch (err) {
+                    if (!resolveFallback) throw err;
+
+                    lastError = err as Error;
+                };
+
+                this.emit("debug", `[HarmonyLink] Resolving "${query}" with the source ${currentSource} on the node ${resolveNode.options.name} gave no results. Falling back...`);
+            };
+        };
+
+        if (!lastResponse && lastError) throw lastError;
+
+        return lastResponse ?? new Response({ loadType: "empty", data: {} }, requester);
+    };
+
+    /**
+     * Shuts HarmonyLink down, so the process can exit cleanly.
+     * The players are destroyed or disconnected, the nodes are closed without reconnecting and the gateway listeners are removed.
+     * @param {HarmonyLinkDestroyOptions} [options] - Options for shutting down.
+     * @returns {Promise<void>}
+     */
+    public async destroy({ destroyPlayers = true }: HarmonyLinkDestroyOptions = {}): Promise<void> {
+        this.emit("debug", `[HarmonyLink] Shutting down. [${this.playerManager.size} players] [${this.nodeManager.size} nodes]`);
+
+        this.library.unlisten();
+
+        const players = [...this.playerManager.values()];
+
+        // The snapshots are kept, so the players can be restored after a restart. They are saved together, so a file store writes them once.
+        await Promise.all(players.map(async player => player.save()));
+
+        for (const player of players) {
+            // The player is unregistered first, so the track end of the cleanup does not overwrite its snapshot.
+            this.playerManager.delete(player.guildId);
+
+            try {
+                if (destroyPlayers) await player.destroy(false);
+                else await player.disconnect();
+            } catch (err) {
+                this.emit("debug", `[HarmonyLink] Failed to ${destroyPlayers ? "destroy" : "disconnect"} the player ${player.guildId} while shutting down.`, err);
+            };
+
+            player.node.players.delete(player.guildId);
+            player.removeAllListeners();
+        };
+
+        for (const node of this.nodeManager.allNodes) {
+            await this.nodeManager.removeNode(node.options.name);
+        };
+
+        this.searchCache?.clear();
+        this.isReady = false;
+    };
+
+    /**
+     * Gets the nodes to resolve a query on, in the order they should be tried.
+     * @param {string} query - The query to resolve.
+     * @param {string} source - The search prefix to resolve with.
+     * @param {Node} [node] - The node the user wants to resolve on.
+     * @param {boolean} [withFallback=false] - Whether to include the other capable online nodes.
+     * @returns {Promise<Node[]>} The nodes.
+     */
+    protected async getResolveNodes(query: string, source: string, node?: Node, withFallback: boolean = false): Promise<Node[]> {
+        const sourceManager = getSourceManager(query, source);
+
+        if (!node) node = sourceManager ? await this.nodeManager.getSourceNode(sourceManager) : await this.nodeManager.getLeastUsedNode();
+
+        if (!withFallback) return [node];
 
-        const result = await node.rest.loadTrack(query, source);
+        const fallbackNodes = this.nodeManager.allNodes
+            .filter(fallbackNode => fallbackNode !== node && fallbackNode.isReady && (!sourceManager || fallbackNode.supportsSource(sourceManager)))
+            .sort((a, b) => a.penalties - b.penalties);
 
-        return new Response(result, requester);
+        return [node, ...fallbackNodes];
     };
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { FilterPreset } from "@t/player/filters";
+
+export const defaultFilterPresets: Record<string, FilterPreset> = {
+    nightcore: {
+        timescale: { speed: 1.3, pitch: 1.3, rate: 1 }
+    },
+    vaporwave: {
+        timescale: { speed: 0.85, pitch: 0.8, rate: 1 }
+    },
+    bassboost: {
+        equalizer: [
+            { band: 0, gain: 0.3 },
+            { band: 1, gain: 0.25 },
+            { band: 2, gain: 0.2 },
+            { band: 3, gain: 0.1 },
+            { band: 4, gain: 0.05 }
+        ]
+    },
+    "8d": {
+        rotation: { rotationHz: 0.2 }
+    },
+    soft: {
+        lowPass: { smoothing: 20 }
+    },
+    karaoke: {
+        karaoke: { level: 1, monoLevel: 1, filterBand: 220, filterWidth: 100 }
+    }
+};
@@ -1,15 +1,45 @@
 // Types
 import { HarmonyLinkConfiguration } from "@t/HarmonyLink";
-import { NodeGroup, NodeOption } from "@t/node";
+import { NodeGroup, NodeOption, NodeState } from "@t/node";
+import { ConnectionPoolOptions } from "@t/node/transport";
 
 export const defaultOptions = (harmoyLinkConfiguration: Omit<HarmonyLinkConfiguration, "defaultPlatform" | "nodes"> & { defaultPlatform: string; nodes?: NodeGroup[] | undefined; }): NodeOption => {
-    const { reconnectTimeout, reconnectTries, resumeTimeout } = harmoyLinkConfiguration;
+    const { reconnectTimeout, reconnectTries, resumeTimeout, reconnectBackoffMultiplier, reconnectMaxTimeout, reconnectJitter, requestTimeout, requestRetries, requestRetryDelay } = harmoyLinkConfiguration;
     
     return {
         reconnectAttemptTimeout: null,
         reconnectTries: reconnectTries ?? 5,
         currentAttempts: 0,
         reconnectTimeout: reconnectTimeout ?? 5000,
-        resumeTimeout: resumeTimeout ?? 60
+        reconnectBackoffMultiplier: reconnectBackoffMultiplier ?? 2,
+        reconnectMaxTimeout: reconnectMaxTimeout ?? 60000,
+        reconnectJitter: Math.min(Math.max(reconnectJitter ?? 0.2, 0), 1),
+        resumeTimeout: resumeTimeout ?? 60,
+        requestTimeout: requestTimeout ?? 15000,
+        requestRetries: requestRetries ?? 2,
+        requestRetryDelay: requestRetryDelay ?? 500
     };
-}
\ No newline at end of file
+}
+
+/**
+ * The options of the connection pool of every node
+ */
+export const defaultConnectionPoolOptions: Required<ConnectionPoolOptions> = {
+    maxSockets: 64,
+    maxFreeSockets: 16,
+    keepAliveTimeout: 4000
+};
+
+/**
+ * The states a node is allowed to change to from each state
+ */
+export const nodeStateTransitions: Record<NodeState, NodeState[]> = {
+    [NodeState.IDLE]: [NodeState.CONNECTING, NodeState.DESTROYED],
+    [NodeState.CONNECTING]: [NodeState.CONNECTED, NodeState.DISCONNECTED, NodeState.DESTROYED],
+    [NodeState.CONNECTED]: [NodeState.READY, NodeState.RESUMING, NodeState.DISCONNECTED, NodeState.DESTROYED],
+    [NodeState.RESUMING]: [NodeState.READY, NodeState.DISCONNECTED, NodeState.DESTROYED],
+    [NodeState.READY]: [NodeState.DISCONNECTED, NodeState.DESTROYED],
+    [NodeState.RECONNECTING]: [NodeState.CONNECTING, NodeState.DISCONNECTED, NodeState.DESTROYED],
+    [NodeState.DISCONNECTED]: [NodeState.CONNECTING, NodeState.RECONNECTING, NodeState.DESTROYED],
+    [NodeState.DESTROYED]: []
+};
\ No newline at end of file
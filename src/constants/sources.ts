@@ -0,0 +1,39 @@
+/**
+ * The search prefixes and the source managers that handle them
+ */
+export const searchPrefixSources: Record<string, string> = {
+    ytsearch: "youtube",
+    ytmsearch: "youtube",
+    scsearch: "soundcloud",
+    spsearch: "spotify",
+    sprec: "spotify",
+    amsearch: "applemusic",
+    dzsearch: "deezer",
+    dzisrc: "deezer",
+    dzrec: "deezer",
+    ymsearch: "yandexmusic",
+    ymrec: "yandexmusic",
+    vksearch: "vkmusic",
+    vkrec: "vkmusic",
+    tdsearch: "tidal",
+    bcsearch: "bandcamp"
+};
+
+/**
+ * The URL hosts and the source managers that handle them
+ */
+export const urlHostSources: Record<string, string> = {
+    "youtube.com": "youtube",
+    "youtu.be": "youtube",
+    "soundcloud.com": "soundcloud",
+    "spotify.com": "spotify",
+    "music.apple.com": "applemusic",
+    "deezer.com": "deezer",
+    "deezer.page.link": "deezer",
+    "music.yandex.ru": "yandexmusic",
+    "vk.com": "vkmusic",
+    "tidal.com": "tidal",
+    "bandcamp.com": "bandcamp",
+    "twitch.tv": "twitch",
+    "vimeo.com": "vimeo"
+};
@@ -0,0 +1,63 @@
+/* eslint-disable max-classes-per-file */
+// Types
+import { ErrorResponses } from "@t/node/rest";
+import { HarmonyLinkRequesterOptions } from "@t/node";
+import { HarmonyLinkRestErrorOptions } from "@t/errors";
+
+/**
+ * The base error of every failed request to a node
+ */
+export class HarmonyLinkRestError extends Error {
+    public readonly node: string;
+    public readonly method: HarmonyLinkRequesterOptions["method"];
+    public readonly path: string;
+
+    /**
+     * The HTTP status code of the response, or null if no response arrived
+     */
+    public readonly status: number | null;
+
+    /**
+     * The error body of the response. The stack trace of the node is included when `trace` is enabled.
+     */
+    public readonly body: ErrorResponses | null;
+
+    /**
+     * How long to wait before retrying in milliseconds, as requested by the `Retry-After` header of the node
+     */
+    public readonly retryAfter: number | null;
+
+    public constructor(message: string, options: HarmonyLinkRestErrorOptions) {
+        super(`[HarmonyLink] [Node ${options.node}] ${options.method} ${options.path}: ${message}`, { cause: options.cause });
+
+        this.name = new.target.name;
+        this.node = options.node;
+        this.method = options.method;
+        this.path = options.path;
+        this.status = options.status ?? null;
+        this.body = options.body ?? null;
+        this.retryAfter = options.retryAfter ?? null;
+    };
+};
+
+/**
+ * The node could not be reached, e.g. the connection was refused or reset
+ */
+export class HarmonyLinkConnectionError extends HarmonyLinkRestError {};
+
+/**
+ * The node did not answer in time
+ */
+export class HarmonyLinkTimeoutError extends HarmonyLinkRestError {};
+
+/**
+ * The node answered with a status code other than 2xx
+ */
+export class HarmonyLinkHTTPError extends HarmonyLinkRestError {
+    declare public readonly status: number;
+};
+
+/**
+ * The node rejected the request with a 4xx status code, e.g. because of an invalid payload or an unknown player
+ */
+export class HarmonyLinkValidationError extends HarmonyLinkHTTPError {};
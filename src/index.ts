@@ -1 +1,6 @@
-export * from "./HarmonyLink"
\ No newline at end of file
+export * from "./HarmonyLink"
+export * from "./utils/SessionStore"
+export * from "./utils/PlayerStore"
+export * from "./errors/HarmonyLinkRestError"
+export { NodeSelectionStrategy } from "./typings/managers/nodeManager"
+export { NodeState } from "./typings/node"
@@ -13,6 +13,7 @@ import { Packet, AnyOtherPacket } from "@t/librarys";
 export default abstract class AbstractLibraryClass {
     protected readonly client: any;
     protected manager: HarmonyLink | null = null;
+    protected readonly listeners = new Map<string, (...args: any[]) => unknown>();
 
     public constructor(client: any) {
         this.client = client;
@@ -29,6 +30,29 @@ export default abstract class AbstractLibraryClass {
         return this;
     };
 
+    /**
+     * Stop listening for events from the discord gateway
+     */
+    public unlisten(): void {
+        for (const [event, listener] of this.listeners) {
+            this.client.removeListener(event, listener);
+        };
+
+        this.listeners.clear();
+    };
+
+    /**
+     * Get the voice channel the bot is connected to in a guild.
+     * Libraries that do not override this can not rebuild the players of a resumed session, so those players are destroyed on the node.
+     * @param {string} _guildId The guild ID
+     * 
+     * @returns {string | null} The voice channel ID from the cache of the library, or null if it is unknown
+     */
+    // eslint-disable-next-line class-methods-use-this
+    public voiceChannelID(_guildId: string): string | null {
+        return null;
+    };
+
     /**
      * Handle raw packets from the gateway
      * @param {Packet} incomingData The packet to handle
@@ -58,7 +82,13 @@ export default abstract class AbstractLibraryClass {
                 const player = this.manager.playerManager.get(d.guild_id);
                 if (!player) return this;
 
-                await player.ConnectionHandler.setServersUpdate(d)
+                // This runs in a listener of the client, so a failing request to the node must not be thrown.
+                try {
+                    await player.ConnectionHandler.setServersUpdate(d);
+                } catch (err) {
+                    this.manager.emit("debug", `[HarmonyLink] [Library] Failed to update the voice server of player ${player.guildId}.`, err);
+                    this.manager.emit("nodeError", player.node, err as Error);
+                };
 
                 break;
             };
@@ -69,6 +99,19 @@ export default abstract class AbstractLibraryClass {
         return this
     };
 
+    /**
+     * Add a listener to the client, so it can be removed again with `unlisten()`
+     * @param {string} event The event to listen for
+     * @param {Function} listener The listener
+     * @param {boolean} once Whether the listener should only be called once (default: false)
+     */
+    protected addClientListener(event: string, listener: (...args: any[]) => unknown, once: boolean = false): void {
+        this.listeners.set(event, listener);
+
+        if (once) this.client.once(event, listener);
+        else this.client.on(event, listener);
+    };
+
     protected async ready(nodes: NodeGroup[]): Promise<void> {
         if (!this.manager) throw new Error("The Manager is not initialized yet!");
 
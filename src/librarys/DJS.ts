@@ -12,14 +12,18 @@ export class DJSLibrary extends AbstractLibraryClass {
         return this.client.guilds.cache.get(guildId)?.shardId
     };
 
+    public voiceChannelID(guildId: string): string | null {
+        return this.client.guilds.cache.get(guildId)?.members.me?.voice.channelId ?? null;
+    };
+
     public sendPacket(shardId: number, payload: AnyOtherPacket, important: boolean = false): void {
         return this.client.ws.shards.get(shardId)?.send(payload, important);
     };
 
     public listen(nodes: NodeGroup[]): void {
-        this.client.once("ready", async () => this.ready(nodes))
+        this.addClientListener("ready", async () => this.ready(nodes), true)
 
         // Getting the raw data from the gateway
-        this.client.on("raw", this.raw.bind(this));
+        this.addClientListener("raw", this.raw.bind(this));
     };
 }
\ No newline at end of file
@@ -12,13 +12,17 @@ export class OceanicJS extends AbstractLibraryClass {
         return this.client.guilds.get(guildId)?.shard.id
     }
 
+    public voiceChannelID(guildId: string): string | null {
+        return this.client.guilds.get(guildId)?.voiceStates.get(this.userID)?.channelID ?? null;
+    };
+
     public sendPacket(shardId: number, payload: AnyOtherPacket, important: boolean = false): void {
         return this.client.shards.get(shardId)?.send(payload.op, payload.d, important);
     };
 
     public listen(nodes: NodeGroup[]): void {
-        this.client.once("ready", () => this.ready(nodes))
+        this.addClientListener("ready", async () => this.ready(nodes), true)
         
-        this.client.on("packet", this.raw.bind(this));
+        this.addClientListener("packet", this.raw.bind(this));
     };
 }
\ No newline at end of file
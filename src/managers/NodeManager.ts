@@ -4,11 +4,14 @@ import { Node } from "@/node/Node";
 
 import { HarmonyLink } from "@/HarmonyLink";
 import { NodeGroup } from "@t/node";
+import { NodeSelectionStrategy } from "@t/managers/nodeManager";
 
 export default class NodeManager extends Map<string, Node> {
     public readonly nodes = new Map<string, AbstractNodeDriver>();
     public readonly manager: HarmonyLink;
 
+    protected roundRobinIndex = -1;
+
     public constructor(manager: HarmonyLink) {
         super();
         this.manager = manager;
@@ -23,37 +26,123 @@ export default class NodeManager extends Map<string, Node> {
         return addedNode;
     };
 
-    public async getLeastUsedNode(): Promise<Node | undefined> {
+    public async getLeastUsedNode(): Promise<Node> {
         if (this.manager.options.nodeResolver) {
             const resolvedData = await this.manager.options.nodeResolver(this);
 
             if (resolvedData && resolvedData instanceof Node) return resolvedData;
         };
 
-        const nodes = this.allNodes;
-
-        const onlineNodes = nodes.filter(node => node.isConnected);
+        const onlineNodes = this.allNodes.filter(node => node.isReady);
 
         if (onlineNodes.length === 0) {
-            throw new Error("[HarmonyLink] [NodeManager] No nodes are online.");
+            throw new Error("[HarmonyLink] [NodeManager] No nodes are ready.");
+        };
+
+        return this.selectNode(onlineNodes);
+    };
+
+    /**
+     * Gets the best ready node that has a source manager enabled.
+     * @param {string} sourceManager The name of the source manager (e.g. "youtube", "spotify")
+     * @returns {Promise<Node>} The node
+     * @throws {Error} When no ready node supports the source manager
+     */
+    public async getSourceNode(sourceManager: string): Promise<Node> {
+        if (this.manager.options.nodeResolver) {
+            const resolvedData = await this.manager.options.nodeResolver(this);
+
+            if (resolvedData && resolvedData instanceof Node && resolvedData.supportsSource(sourceManager)) return resolvedData;
         };
 
-        const promises = onlineNodes.map(async node => {
-            const stats = await node.getStats();
-            return { node, stats };
-        });
+        const capableNodes = this.allNodes.filter(node => node.isReady && node.supportsSource(sourceManager));
 
-        const results = await Promise.all(promises);
-        const sorted = results.sort((a, b) => (a.stats.players || 0) - (b.stats.players || 0));
+        if (capableNodes.length === 0) {
+            throw new Error(`[HarmonyLink] [NodeManager] No ready node supports the source [${sourceManager}]. Is the plugin for it installed on your nodes?`);
+        };
 
-        return sorted[0].node;
+        return this.selectNode(capableNodes);
+    };
+
+    /**
+     * Gets the best ready node that serves a Discord voice region.
+     * @param {string} region The voice region (e.g. "us-east")
+     * @returns {Node | undefined} The node, or undefined when no ready node serves the region
+     */
+    public getRegionNode(region: string): Node | undefined {
+        const regionNodes = this.allNodes.filter(node => node.isReady && node.servesRegion(region));
+        if (regionNodes.length === 0) return undefined;
+
+        return this.selectNode(regionNodes);
+    };
+
+    /**
+     * Picks a node with the configured selection strategy.
+     * @param {Node[]} nodes The nodes to pick from
+     * @param {NodeSelectionStrategy} [strategy] The strategy to use, defaults to the configured one
+     * @returns {Node} The picked node
+     */
+    public selectNode(nodes: Node[], strategy: NodeSelectionStrategy = this.manager.options.nodeSelectionStrategy ?? NodeSelectionStrategy.Penalties): Node {
+        switch (strategy) {
+            case NodeSelectionStrategy.LeastPlayers: return [...nodes].sort((a, b) => a.stats.playingPlayers - b.stats.playingPlayers || a.stats.players - b.stats.players)[0];
+
+            case NodeSelectionStrategy.LeastLoad: return [...nodes].sort((a, b) => a.stats.cpu.lavalinkLoad - b.stats.cpu.lavalinkLoad || a.stats.cpu.systemLoad - b.stats.cpu.systemLoad)[0];
+
+            case NodeSelectionStrategy.RoundRobin: {
+                this.roundRobinIndex = (this.roundRobinIndex + 1) % nodes.length;
+                return nodes[this.roundRobinIndex];
+            };
+
+            case NodeSelectionStrategy.Random: return nodes[Math.floor(Math.random() * nodes.length)];
+
+            case NodeSelectionStrategy.Penalties:
+            default: return [...nodes].sort((a, b) => a.penalties - b.penalties)[0];
+        };
+    };
+
+    /**
+     * Moves every player of a dead node to the healthy nodes.
+     * @param {Node} deadNode The node that died
+     * @param {boolean} [destroyOrphans=true] Whether to destroy the players when no healthy node is left
+     * @returns {Promise<number>} The amount of players that have been moved
+     */
+    public async failover(deadNode: Node, destroyOrphans: boolean = true): Promise<number> {
+        let moved = 0;
+
+        for (const player of [...deadNode.players.values()]) {
+            const target = await this.getFailoverNode(deadNode);
+
+            if (!target) {
+                if (!destroyOrphans) continue;
+
+                this.manager.emit("debug", `[HarmonyLink] [NodeManager] No healthy node is left to move the player ${player.guildId} to. Destroying it.`);
+
+                await player.destroy().catch(() => {
+                    deadNode.players.delete(player.guildId);
+                    this.manager.playerManager.delete(player.guildId);
+                });
+
+                continue;
+            };
+
+            try {
+                await player.moveNode(target);
+                moved++;
+
+                this.manager.emit("playerFailover", player, deadNode, target);
+            } catch (err) {
+                this.manager.emit("debug", `[HarmonyLink] [NodeManager] Failed to move the player ${player.guildId} from the node ${deadNode.options.name} to the node ${target.options.name}.`, err);
+            };
+        };
+
+        return moved;
     };
 
     public async removeNode(name: string): Promise<Node | null> {
         const node = this.get(name);
         if (!node) return null;
 
-        await node.disconnect();
+        await node.destroy();
         this.delete(name);
         return node;
     };
@@ -61,4 +150,14 @@ export default class NodeManager extends Map<string, Node> {
     public get allNodes(): Node[] {
         return [...this.values()];
     };
+
+    protected async getFailoverNode(deadNode: Node): Promise<Node | undefined> {
+        const healthyNodes = this.allNodes.filter(node => node !== deadNode && node.isReady);
+        if (healthyNodes.length === 0) return undefined;
+
+        const resolvedNode = await this.getLeastUsedNode().catch(() => undefined);
+        if (resolvedNode && healthyNodes.includes(resolvedNode)) return resolvedNode;
+
+        return this.selectNode(healthyNodes);
+    };
 };
\ No newline at end of file
@@ -1,11 +1,13 @@
 import { Player } from "@/player/Player";
+import { Track } from "@/player/Track";
 
 import { HarmonyLink } from "@/HarmonyLink";
 import { Snowflake } from "@/typings";
 import { Node } from "@/node/Node";
-import { PlayerConnectionState, PlayerOptions } from "@/typings/player";
+import { NodeResumeSummary } from "@/typings/node";
+import { PlayerConnectionState, PlayerOptions, VoiceConnectionState } from "@/typings/player";
 import { ConnectionOptions, DiscordVoiceStates } from "@/typings/player/connection";
-import { UpdatePlayerInfo } from "@/typings/node/rest";
+import { PlayerObjectFromAPI, UpdatePlayerInfo } from "@/typings/node/rest";
 export default class PlayerManager extends Map<Snowflake, Player> {
     public readonly manager: HarmonyLink;
     
@@ -18,27 +20,26 @@ export default class PlayerManager extends Map<Snowflake, Player> {
         if (this.has(options.guildId)) return this.get(options.guildId)!;
         
         const node = options.node ?? await this.leastUsedNode()
+        if (!node.isReady) throw new Error(`[HarmonyLink] [PlayerManager] The node ${node.options.name} is not ready to create a player on. [${node.state}]`);
+
         let newPlayer = new Player(this.manager, node, options)
 
         this.set(options.guildId, newPlayer);
+        node.players.set(options.guildId, newPlayer);
 
         try {
             newPlayer = await newPlayer.connect()
         } catch (err) {
+            // Connecting can move the player to a node serving its voice region
             this.delete(options.guildId)
+            newPlayer.node.players.delete(options.guildId);
 
             throw err
         };
 
-        const onUpdate = async (state: DiscordVoiceStates): Promise<void> => {
-            if (state !== DiscordVoiceStates.SESSION_READY) return;
-
-            await newPlayer.node.rest.updatePlayer(this.playerUpdateObject(options.guildId, newPlayer.ConnectionHandler.options))
-        };
-
-        await newPlayer.node.rest.updatePlayer(this.playerUpdateObject(options.guildId, newPlayer.ConnectionHandler.options))
+        await newPlayer.node.rest.updatePlayer(this.playerUpdateObject(options.guildId, newPlayer.ConnectionHandler.options, newPlayer.volume))
 
-        newPlayer.on("connectionUpdate", onUpdate);
+        this.listenConnectionUpdates(newPlayer);
         newPlayer.state = PlayerConnectionState.CONNECTED
 
         this.manager.emit("debug", `[HarmonyLink] [PlayerManager] Created a new player for guild ${options.guildId} on node ${node.options.name}.`);
@@ -55,12 +56,156 @@ export default class PlayerManager extends Map<Snowflake, Player> {
         return player;
     };
 
+    /**
+     * Reconciles the local players with the players of a resumed session.
+     * Local players are updated with the state of the node, players on the node without a local player are rebuilt when the bot is still in a voice channel and destroyed otherwise.
+     * @param {Node} node The node that resumed its session
+     * @returns {Promise<NodeResumeSummary>} What has been changed
+     */
+    public async _reconcilePlayers(node: Node): Promise<NodeResumeSummary> {
+        const summary: NodeResumeSummary = { updated: [], restored: [], destroyed: [], missing: [] };
+        const serverPlayers = await node.rest.getAllPlayers();
+
+        for (const data of serverPlayers) {
+            const player = this.get(data.guildId);
+
+            if (player?.node === node) {
+                this.syncPlaybackState(player, data);
+                summary.updated.push(data.guildId);
+
+                continue;
+            };
+
+            if (!player && this._restorePlayer(node, data)) {
+                summary.restored.push(data.guildId);
+                continue;
+            };
+
+            // Orphans are players without voice state, or players that have been moved to another node while the session was gone.
+            try {
+                await node.rest.destroyPlayer(data.guildId);
+                summary.destroyed.push(data.guildId);
+            } catch (err) {
+                this.manager.emit("debug", `[HarmonyLink] [PlayerManager] Failed to destroy the orphaned player ${data.guildId} on node ${node.options.name}.`, err);
+            };
+        };
+
+        const serverGuildIds = new Set(serverPlayers.map(data => data.guildId));
+        summary.missing = [...node.players.keys()].filter(guildId => !serverGuildIds.has(guildId));
+
+        return summary;
+    };
+
+    /**
+     * Rebuilds a player from the player object of the node, without sending anything to the node.
+     * @param {Node} node The node the player lives on
+     * @param {PlayerObjectFromAPI} data The player object from the node
+     * @returns {Player | null} The player, or null if the bot is not in a voice channel of the guild anymore
+     */
+    public _restorePlayer(node: Node, data: PlayerObjectFromAPI): Player | null {
+        const voiceId = this.manager.library.voiceChannelID(data.guildId);
+
+        if (!voiceId || !data.voice.sessionId) {
+            this.manager.emit("debug", `[HarmonyLink] [PlayerManager] Could not rebuild the player for guild ${data.guildId}, as the bot is not in a voice channel.`);
+            return null;
+        };
+
+        const player = new Player(this.manager, node, { guildId: data.guildId, voiceId, textId: "", mute: false, deaf: false });
+
+        player.ConnectionHandler.options.voice = {
+            sessionId: data.voice.sessionId,
+            token: data.voice.token,
+            endpoint: data.voice.endpoint ?? null,
+        };
+        player.ConnectionHandler.options.voiceRegion = data.voice.endpoint?.split(".").shift()?.replace(/[0-9]/g, "") ?? null;
+
+        player.state = PlayerConnectionState.CONNECTED;
+        player.voiceState = VoiceConnectionState.CONNECTED;
+        this.syncPlaybackState(player, data);
+
+        this.set(data.guildId, player);
+        node.players.set(data.guildId, player);
+        this.listenConnectionUpdates(player);
+
+        this.manager.emit("debug", `[HarmonyLink] [PlayerManager] Rebuilt the player for guild ${data.guildId} on node ${node.options.name}.`);
+
+        return player;
+    };
+
+    /**
+     * Restores the players from the snapshots of the player store. Call this once the nodes are ready.
+     * Players that already exist, e.g. from a resumed session, only get their queue, loop mode and autoplay back.
+     * @returns {Promise<Player[]>} The restored players
+     */
+    public async restorePlayers(): Promise<Player[]> {
+        const store = this.manager.options.playerStore;
+        if (!store) return [];
+
+        const players: Player[] = [];
+
+        for (const snapshot of await store.getAll()) {
+            try {
+                const existingPlayer = this.get(snapshot.guildId);
+
+                if (existingPlayer) {
+                    players.push(await existingPlayer.restore(snapshot, false));
+                    continue;
+                };
+
+                const node = this.manager.nodeManager.get(snapshot.node);
+                const player = await this.createPlayer({
+                    guildId: snapshot.guildId,
+                    voiceId: snapshot.voiceId,
+                    textId: snapshot.textId,
+                    shardId: snapshot.shardId,
+                    mute: snapshot.mute,
+                    deaf: snapshot.deaf,
+                    node: node?.isReady ? node : undefined
+                });
+
+                players.push(await player.restore(snapshot));
+            } catch (err) {
+                this.manager.emit("debug", `[HarmonyLink] [PlayerManager] Failed to restore the player for guild ${snapshot.guildId}.`, err);
+            };
+        };
+
+        return players;
+    };
+
     public async leastUsedNode(): Promise<Node> {
-        return await this.manager.nodeManager.getLeastUsedNode() ?? this.manager.nodeManager.allNodes[Math.floor(Math.random() * this.manager.nodeManager.allNodes.length)]
+        return this.manager.nodeManager.getLeastUsedNode()
+    };
+
+    // eslint-disable-next-line class-methods-use-this
+    private syncPlaybackState(player: Player, data: PlayerObjectFromAPI): void {
+        player.isConnected = data.state.connected;
+        player.position = data.state.position;
+        player.timestamp = data.state.time;
+        player.ping = data.state.ping;
+        player.isPaused = data.paused;
+        player.isPlaying = Boolean(data.track) && !data.paused;
+
+        // Keeping the local track when it is the same, as it holds the requester
+        if (data.track?.encoded !== player.queue.currentTrack?.track) player.queue.currentTrack = data.track ? new Track(data.track) : null;
+
+        player._syncFromAPI(data);
+    };
+
+    private listenConnectionUpdates(player: Player): void {
+        player.on("connectionUpdate", async (state: DiscordVoiceStates): Promise<void> => {
+            if (state !== DiscordVoiceStates.SESSION_READY) return;
+
+            try {
+                await player.node.rest.updatePlayer(this.playerUpdateObject(player.guildId, player.ConnectionHandler.options));
+            } catch (err) {
+                this.manager.emit("debug", `[HarmonyLink] [PlayerManager] Failed to send the voice connection of player ${player.guildId} to the node.`, err);
+                this.manager.emit("nodeError", player.node, err as Error);
+            };
+        });
     };
 
     // eslint-disable-next-line class-methods-use-this
-    private playerUpdateObject(guildId: string, options: ConnectionOptions): UpdatePlayerInfo {
+    private playerUpdateObject(guildId: string, options: ConnectionOptions, volume?: number): UpdatePlayerInfo {
         return {
             guildId,
             playerOptions: {
@@ -68,7 +213,8 @@ export default class PlayerManager extends Map<Snowflake, Player> {
                     endpoint: options.voice.endpoint!,
                     token: options.voice.token!,
                     sessionId: options.voice.sessionId!,
-                }
+                },
+                volume
             }
         };
     }
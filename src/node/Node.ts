@@ -3,8 +3,9 @@ import EventEmitter from "events";
 import NodeEventHandler from "./NodeEventHandler";
 
 import { HarmonyLink } from "@/HarmonyLink";
-import { NodeOptions, NodeGroup, NodeStats, NodeEvents } from "@t/node";
+import { NodeOptions, NodeGroup, NodeStats, NodeEvents, NodeInfo, NodeState } from "@t/node";
 import { getDefaultNodeStats } from "@/constants";
+import { nodeStateTransitions } from "@/constants/node";
 import Rest from "./Rest";
 import { parseOptions } from "@/utils";
 import AbstractNodeDriver from "@/nodeDriver/AbstractNodeDriver";
@@ -26,7 +27,8 @@ export declare interface Node {
 export class Node extends EventEmitter {
     public options: Required<NodeOptions>
     public stats: NodeStats = getDefaultNodeStats()
-    public isConnected: boolean = false;
+    public info: NodeInfo | null = null;
+    public state: NodeState = NodeState.IDLE;
 
     public readonly manager: HarmonyLink;
     public readonly rest: Rest
@@ -34,6 +36,7 @@ export class Node extends EventEmitter {
     public readonly players = new Map<Snowflake, Player>();
 
     protected readonly NodeEventsHandler: NodeEventHandler = new NodeEventHandler(this);
+    protected cancelScheduledReconnect: (() => void) | null = null;
 
     public constructor(manager: HarmonyLink, options: NodeGroup) {
         super();
@@ -41,40 +44,131 @@ export class Node extends EventEmitter {
         this.options = parseOptions(options, this.manager.options);
         this.rest = new Rest(manager, this);
 
-        const getDriver = this.manager.drivers.filter(driver => driver.type === options.type) as AbstractNodeDriver[] | undefined;
+        const Driver = this.manager.drivers.get(this.options.type);
 
-        if (!getDriver || getDriver.length === 0) {
+        if (Driver) {
+            this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] Driver found for the node type [${this.options.type}].`)
+            this.driver = new Driver();
+        } else {
             this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] No driver found for the node type [${this.options.type}]. Using default driver LavalinkV4.`)
             this.driver = new LavalinkV4();
-        } else {
-            this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] Driver found for the node type [${this.options.type}].`)
-            this.driver = getDriver[0];
         };
 
         this.driver.init(this.manager, this);
     };
 
+    /**
+     * Whether the WebSocket connection to the node is open
+     * @type {boolean}
+     */
+    public get isConnected(): boolean {
+        return [NodeState.CONNECTED, NodeState.RESUMING, NodeState.READY].includes(this.state);
+    };
+
+    /**
+     * Whether the node is ready to be used
+     * @type {boolean}
+     */
     public get isReady(): boolean {
-        return this.rest.isReady && this.isConnected;
+        return this.state === NodeState.READY;
+    };
+
+    /**
+     * Checks if the node has a source manager enabled. Nodes with an unknown info are considered to support every source.
+     * @param {string} sourceManager The name of the source manager (e.g. "youtube", "spotify")
+     * @returns {boolean} Whether the node supports the source manager
+     */
+    public supportsSource(sourceManager: string): boolean {
+        if (!this.info) return true;
+
+        return this.info.sourceManagers.some(name => name.toLowerCase() === sourceManager.toLowerCase());
+    };
+
+    /**
+     * Checks if the node serves a Discord voice region.
+     * @param {string} region The voice region (e.g. "us-east")
+     * @returns {boolean} Whether the node serves the voice region
+     */
+    public servesRegion(region: string): boolean {
+        return this.options.regions.some(nodeRegion => region.toLowerCase().startsWith(nodeRegion));
+    };
+
+    /**
+     * The delay before the next reconnect attempt in milliseconds, growing exponentially with every attempt
+     * @type {number}
+     */
+    public get reconnectDelay(): number {
+        const { reconnectTimeout, reconnectBackoffMultiplier, reconnectMaxTimeout, reconnectJitter, currentAttempts } = this.options;
+
+        const delay = Math.min(reconnectTimeout * (reconnectBackoffMultiplier ** currentAttempts), reconnectMaxTimeout);
+        const jitter = delay * reconnectJitter * ((Math.random() * 2) - 1);
+
+        return Math.max(Math.round(delay + jitter), 0);
+    };
+
+    /**
+     * The penalty score of the node based on the cached stats. The lower the score, the better the node.
+     * @type {number}
+     */
+    public get penalties(): number {
+        const { playingPlayers, cpu, frameStats } = this.stats;
+
+        // Lavalink does not send frame stats when there are no players on the node.
+        const { deficit = 0, nulled = 0 } = (frameStats as NodeStats["frameStats"] | null) ?? {};
+
+        const cpuPenalty = (1.05 ** (100 * Math.max(cpu.systemLoad, cpu.lavalinkLoad)) * 10) - 10;
+        const deficitFramePenalty = (1.03 ** (500 * (deficit / 3000)) * 600) - 600;
+        const nullFramePenalty = ((1.03 ** (500 * (nulled / 3000)) * 300) - 300) * 2;
+
+        return playingPlayers + cpuPenalty + deficitFramePenalty + nullFramePenalty;
+    };
+
+    /**
+     * Changes the state of the node. Transitions that are not allowed are ignored.
+     * @param {NodeState} state The new state
+     * @returns {boolean} Whether the state has been changed
+     */
+    public setState(state: NodeState): boolean {
+        const oldState = this.state;
+        if (oldState === state) return true;
+
+        if (!nodeStateTransitions[oldState].includes(state)) {
+            this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] Ignored the invalid state change from ${oldState} to ${state}.`);
+            return false;
+        };
+
+        this.state = state;
+        this.manager.emit("nodeStateChange", this, oldState, state);
+
+        return true;
     };
 
     public setSessionId(sessionId: string): void {
         this.rest.setSessionId(sessionId);
+        this.driver.setSessionId(sessionId);
     };
 
     public async connect(): Promise<WebSocket> {
-        const ws = await this.driver.connect();
+        if (!this.setState(NodeState.CONNECTING)) throw new Error(`[HarmonyLink] [Node ${this.options.name}] The node can not connect while it is ${this.state}.`);
 
-        this.isConnected = true;
-        this.options.currentAttempts = 0;
+        try {
+            // Resuming the session of a previous bot process
+            if (this.manager.options.resume && !this.rest.isReady) {
+                const sessionId = await this.manager.options.sessionStore?.get(this.options.name);
+                if (sessionId) this.setSessionId(sessionId);
+            };
 
-        return ws;
+            return await this.driver.connect();
+        } catch (err) {
+            this.setState(NodeState.DISCONNECTED);
+            throw err;
+        };
     };
 
     public async disconnect(): Promise<void> {
         return new Promise<void>((resolve) => {
-            if (!this.isConnected) return resolve();
-            this.isConnected = false;
+            if (!this.isConnected && this.state !== NodeState.CONNECTING) return resolve();
+            this.setState(NodeState.DISCONNECTED);
 
             this.driver.wsClose(true);
 
@@ -82,23 +176,79 @@ export class Node extends EventEmitter {
         });
     };
 
+    /**
+     * Disconnects from the node and marks it as destroyed, so it can not be used anymore.
+     */
+    public async destroy(): Promise<void> {
+        this.cancelReconnect();
+        await this.disconnect();
+
+        this.setState(NodeState.DESTROYED);
+        this.NodeEventsHandler.destroy();
+        this.driver.destroy();
+    };
+
+    /**
+     * Schedules a reconnect attempt with an exponential backoff. When all attempts are used up, the node is considered dead.
+     * @returns {Promise<void>} Resolves when the attempt has been made or cancelled, rejects when no attempts are left.
+     */
     public async reconnect(): Promise<void> {
-        return new Promise<void>((resolve, reject) => {
-            this.options.reconnectAttemptTimeout = setTimeout(async () => {
-                if (this.options.currentAttempts > this.options.reconnectTries) return reject(new Error(`[HarmonyLink] [Node ${this.options.name}] Reconnect attempts exceeded the limit [${this.options.reconnectTries}]`));
+        this.cancelReconnect();
+        if (this.state === NodeState.DESTROYED) return;
+
+        if (this.options.currentAttempts >= this.options.reconnectTries) {
+            const error = new Error(`[HarmonyLink] [Node ${this.options.name}] Reconnect attempts exceeded the limit [${this.options.reconnectTries}]`);
+
+            this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] Reconnect attempts exceeded the limit [${this.options.reconnectTries}]. The node is dead.`);
+            if (this.manager.options.failover) await this.manager.nodeManager.failover(this);
+
+            this.manager.emit("nodeDead", this, error);
+            throw error;
+        };
+
+        const delay = this.reconnectDelay;
+        this.options.currentAttempts++;
+        this.setState(NodeState.RECONNECTING);
+
+        this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] Reconnecting in ${delay}ms. [${this.options.currentAttempts}/${this.options.reconnectTries}]`);
+
+        const isScheduled = await new Promise<boolean>((resolve) => {
+            this.options.reconnectAttemptTimeout = setTimeout(() => resolve(true), delay);
+            this.cancelScheduledReconnect = () => resolve(false);
+        });
+
+        this.options.reconnectAttemptTimeout = null;
+        this.cancelScheduledReconnect = null;
 
-                this.isConnected = false;
-                this.driver.wsClose(false);
+        if (!isScheduled) return;
 
-                this.manager.emit("nodeReconnect", this);
-                this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] Reconnecting to the node.`)
+        this.driver.wsClose(false);
 
-                await this.connect();
-                this.options.currentAttempts++;
-            }, this.options.reconnectTimeout)
+        this.manager.emit("nodeReconnect", this);
+        this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] Reconnecting to the node.`)
 
-            resolve()
-        })
+        try {
+            await this.connect();
+        } catch (err) {
+            this.manager.emit("nodeReconnectFailed", this, this.options.currentAttempts, err as Error);
+
+            return this.reconnect();
+        };
+    };
+
+    /**
+     * Cancels a scheduled reconnect attempt.
+     */
+    public cancelReconnect(): void {
+        if (this.options.reconnectAttemptTimeout) {
+            clearTimeout(this.options.reconnectAttemptTimeout);
+            this.options.reconnectAttemptTimeout = null;
+        };
+
+        this.cancelScheduledReconnect?.();
+        this.cancelScheduledReconnect = null;
+
+        if (this.state === NodeState.RECONNECTING) this.setState(NodeState.DISCONNECTED);
     };
 
     public async getStats(): Promise<NodeStats> {
@@ -111,4 +261,21 @@ export class Node extends EventEmitter {
 
         return this.stats;
     };
+
+    /**
+     * Gets the info of the node. The info is cached after the first request.
+     * @param {boolean} [force=false] Whether to refetch the info from the node
+     * @returns {Promise<NodeInfo | null>} The info of the node
+     */
+    public async getInfo(force: boolean = false): Promise<NodeInfo | null> {
+        if (this.info && !force) return this.info;
+
+        try {
+            this.info = await this.rest.getInfo() ?? null;
+        } catch (err) {
+            this.manager.emit("debug", `[HarmonyLink] [Node ${this.options.name}] Failed to fetch the info of the node.`, err);
+        };
+
+        return this.info;
+    };
 }
\ No newline at end of file
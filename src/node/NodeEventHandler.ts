@@ -1,18 +1,24 @@
 import { HarmonyLink } from "@/HarmonyLink";
 import { Node } from "./Node";
-import { LavalinkPackets, NodeStats } from "@t/node";
+import { LavalinkPackets, NodeState, NodeStats, NodeType } from "@t/node";
 
 export default class PlayerEvent {
-    public manager: HarmonyLink;
     public node: Node
 
     public constructor(node: Node) {
         this.node = node;
-        this.manager = this.node.manager;
 
         this.listen();
     };
 
+    /**
+     * The manager of the node. It is read from the node, as the handler is created before the node has its manager.
+     * @type {HarmonyLink}
+     */
+    public get manager(): HarmonyLink {
+        return this.node.manager;
+    };
+
     public listen(): void {
         this.node.on("lavalinkEvent", this.onLavalinkEvent.bind(this));
         this.node.on("lavalinkWSClose", this.onWSCloseEvent.bind(this));
@@ -24,21 +30,47 @@ export default class PlayerEvent {
         this.node.removeAllListeners();
     }
 
-    protected async onLavalinkEvent(data: string, interceptor?: (data: any) => LavalinkPackets): Promise<void> {
+    protected async onLavalinkEvent(packet: LavalinkPackets): Promise<void> {
         try {
-            const packet = interceptor ? interceptor(JSON.parse(data)) : JSON.parse(data) as LavalinkPackets | undefined;
-
-            if (!packet?.op) return;
+            if (!(packet as Partial<LavalinkPackets>).op) return;
 
             switch (packet.op) {
                 case "ready": {
                     this.node.setSessionId(packet.sessionId)
+                    if (packet.resumed) this.node.setState(NodeState.RESUMING);
+
                     this.manager.emit("debug", `[Web Socket] Node ${this.node.options.name} is ready.`)
 
                     if (this.manager.options.resume && this.manager.options.resumeTimeout) {
                         await this.node.driver.updateSessions(packet.sessionId, this.manager.options.resume, this.manager.options.resumeTimeout)
+                            .catch((err: unknown) => this.manager.emit("debug", `[HarmonyLink] [Node ${this.node.options.name}] Failed to enable resuming for the session.`, err));
+                    };
+
+                    if (this.manager.options.resume) {
+                        try {
+                            await this.manager.options.sessionStore?.set(this.node.options.name, packet.sessionId);
+                        } catch (err) {
+                            this.manager.emit("debug", `[HarmonyLink] [Node ${this.node.options.name}] Failed to save the session.`, err);
+                        };
+                    };
+
+                    // Caching the source managers, plugins and filters of the node for picking capable nodes.
+                    await this.node.getInfo(true);
+
+                    if (packet.resumed) {
+                        // The node must become ready even when the players could not be reconciled, otherwise it is never used again.
+                        try {
+                            const summary = await this.manager.playerManager._reconcilePlayers(this.node);
+
+                            this.manager.emit("debug", `[HarmonyLink] [Node ${this.node.options.name}] Resumed the session. [${summary.updated.length} updated] [${summary.restored.length} restored] [${summary.destroyed.length} destroyed] [${summary.missing.length} missing]`);
+                            this.manager.emit("nodeResumed", this.node, summary);
+                        } catch (err) {
+                            this.manager.emit("debug", `[HarmonyLink] [Node ${this.node.options.name}] Failed to reconcile the players of the resumed session.`, err);
+                        };
                     };
 
+                    this.node.setState(NodeState.READY);
+
                     break;
                 };
 
@@ -54,9 +86,10 @@ export default class PlayerEvent {
                 case "playerUpdate": {
                     if (!packet.guildId) return;
 
+                    // Packets of a player that has been moved to another node are from the old node and ignored.
                     const player = this.manager.playerManager.get(packet.guildId);
                     // eslint-disable-next-line @typescript-eslint/no-unused-expressions
-                    if (player) packet.op === "event" ? player.emit(packet.op, packet) : player.emit(packet.op, packet)
+                    if (player?.node === this.node) packet.op === "event" ? player.emit(packet.op, packet) : player.emit(packet.op, packet)
 
                     break;
                 };
@@ -64,7 +97,7 @@ export default class PlayerEvent {
                 default: break;
             }
         } catch (err) {
-            this.manager.emit("debug", "[Web Socket] Error while parsing the payload.", err)
+            this.manager.emit("debug", "[Web Socket] Error while handling the payload.", err)
         }
     };
 
@@ -75,8 +108,8 @@ export default class PlayerEvent {
                 this.node.options.reconnectAttemptTimeout = null;
             };
 
+            this.node.setState(NodeState.CONNECTED);
             this.manager.emit("nodeConnect", this.node);
-            this.node.isConnected = true;
             this.manager.emit("debug", `[HarmonyLink] [Node ${this.node.options.name}] [Web Socket] Connected to the node.`)
 
             this.node.options.currentAttempts = 0;
@@ -87,12 +120,26 @@ export default class PlayerEvent {
 
     protected async onWSCloseEvent(code: number, reason: Buffer): Promise<void> {
         try {
-            await this.node.disconnect();
+            // The node already closed the socket, so it is only cleaned up here and the disconnect is emitted once with the real code.
+            if (this.node.isConnected || this.node.state === NodeState.CONNECTING) this.node.setState(NodeState.DISCONNECTED);
+            this.node.driver.wsClose(false);
 
             this.manager.emit("nodeDisconnect", this.node, code);
             this.manager.emit("debug", `[HarmonyLink] [Node ${this.node.options.name}] [Web Socket] Disconnected from the node. [${code}] [${reason.toString("utf-8")}]`)
 
-            if (code !== 100) await this.node.reconnect()
+            // The attempts are reset once the socket opens, so closing while attempting means the attempt failed.
+            if (this.node.options.currentAttempts > 0) this.manager.emit("nodeReconnectFailed", this.node, this.node.options.currentAttempts, new Error(`[HarmonyLink] [Node ${this.node.options.name}] The WebSocket closed before opening. [${code}]`));
+
+            // The reconnect is scheduled first, so moving the players does not delay it.
+            const reconnecting = code === 100 ? null : this.node.reconnect().catch((err: unknown) => {
+                this.manager.emit("debug", `[HarmonyLink] [Node ${this.node.options.name}] [Web Socket] Stopped reconnecting to the node.`, err)
+            });
+
+            // Without resuming the node drops its players as soon as the socket closes, so they have to be moved right away.
+            const isResumable = Boolean(this.manager.options.resume) && this.node.driver.type === NodeType.LavaLinkV4;
+            if (this.manager.options.failover && !isResumable) await this.manager.nodeManager.failover(this.node, false);
+
+            await reconnecting;
         } catch (err) {
             this.manager.emit("debug", `[HarmonyLink] [Node ${this.node.options.name}] [Web Socket] Error while parsing the payload.`, err)
         };
@@ -98,7 +98,10 @@ export default class Rest {
             params: { noReplace: data.noReplace?.toString() ?? "false" },
         };
 
-        return this.node.driver.request<PlayerObjectFromAPI>(options)
+        const result = await this.node.driver.request<PlayerObjectFromAPI>(options);
+        if (result) this.manager.playerManager.get(data.guildId)?._syncFromAPI(result);
+
+        return result;
     };
 
     /**
@@ -123,16 +126,27 @@ export default class Rest {
      * Load a track by the identifier
      * @param identifier The identifier of the track to load
      * @returns {LoadTrackResult} The result of the track
+     * @throws {HarmonyLinkRestError} When the request to the node failed
      * 
      * @docs https://lavalink.dev/api/rest.html#track-loading
      */
     public async loadTrack(identifier: string, source?: string): Promise<LoadTrackResult> {
+        const searchSource = source ?? this.manager.options.defaultPlatform ?? 'ytsearch';
+
+        const cachedResult = this.manager.searchCache?.get(identifier, searchSource);
+        if (cachedResult) return cachedResult;
+
         const options: HarmonyLinkRequesterOptions = {
             method: "GET",
-            path: `/loadtracks?identifier=${encodeURIComponent((this.startsWithMultiple(identifier, ["https://", "http://"]) ? '' : `${source ?? this.manager.options.defaultPlatform ?? 'ytsearch'}:`) + identifier)}`,
+            path: `/loadtracks?identifier=${encodeURIComponent((this.startsWithMultiple(identifier, ["https://", "http://"]) ? '' : `${searchSource}:`) + identifier)}`,
         };
 
-        return await this.node.driver.request<LoadTrackResult>(options) ?? { loadType: "empty", data: {} };
+        const result = await this.node.driver.request<LoadTrackResult>(options);
+        if (!result) return { loadType: "empty", data: {} };
+
+        this.manager.searchCache?.set(identifier, searchSource, result);
+
+        return result;
     };
 
     /**
@@ -1,29 +1,65 @@
 import Decoder from "./Decoder";
+import RequestHandler from "./RequestHandler";
 
 import { HarmonyLink } from "@/HarmonyLink";
-import { HarmonyLinkRequesterOptions, NodeType } from "@t/node";
+import { HarmonyLinkRequesterOptions, LavalinkPackets, NodeType } from "@t/node";
+import { NodeFetch, WebSocketFactory } from "@t/node/transport";
 import ws from "ws"
+import http from "http";
 import { Node } from "@/node/Node";
 import { TrackData } from "@/typings/track";
+import { createPoolAgent, pooledFetch } from "@/utils/pooledFetch";
+import { HarmonyLinkRestError, HarmonyLinkValidationError } from "@/errors/HarmonyLinkRestError";
 
 export default abstract class AbstractNodeDriver {
-    public abstract clientId: string;
+    public clientId = "";
+    public wsUrl = "";
+    public httpUrl = "";
+    public manager: HarmonyLink | null = null;
+
+    protected wsClient?: ws = undefined;
+    protected node: Node | null = null;
+    protected sessionId: string | null = null;
+
+    /**
+     * The path every REST endpoint except `/version` starts with
+     */
+    protected apiPath = "/v4";
+
+    // The keep-alive connections to the node, shared by all requests
+    protected agent: http.Agent | null = null;
+
+    // Sends the requests with the timeouts, retries and interceptors of the node
+    protected requests: RequestHandler | null = null;
+
     public abstract type: NodeType;
-    public abstract wsUrl: string;
-    public abstract httpUrl: string;
-    public abstract manager: HarmonyLink | null;
 
-    protected abstract wsClient?: ws
-    protected abstract node: Node | null;
-    protected abstract sessionId: string | null;
+    /**
+     * The function used for the REST requests. Defaults to the `fetch` of the transport options,
+     * or to a fetch that reuses the keep-alive connections of the node.
+     */
+    public fetch: NodeFetch = async (url: URL, init: RequestInit) => this.node?.options.transport.fetch?.(url, init) ?? pooledFetch(this.agent, url, init);
 
-    public abstract get isRegistered(): boolean;
+    /**
+     * The function used for opening the WebSocket connection to the node.
+     * Defaults to the `webSocket` of the transport options, or to the WebSocket of `ws`.
+     */
+    public createWebSocket: WebSocketFactory = (url: string, options: ws.ClientOptions) => {
+        const WebSocketClass = this.node?.options.transport.webSocket ?? ws;
+
+        return new WebSocketClass(url, { ...this.node?.options.transport.tls, ...options });
+    };
+
+    public get isRegistered(): boolean {
+        return (this.manager !== null && this.node !== null && this.wsUrl.length !== 0 && this.httpUrl.length !== 0);
+    };
 
     public get defaultHeaders(): Record<string, string> {
         const headers: Record<string, string> = {
             Authorization: this.node!.options.password,
             "User-Agent": this.clientId,
-            "Content-Type": "application/json"
+            "Content-Type": "application/json",
+            ...this.node!.options.transport.headers
         };
 
         if (this.type === NodeType.NodeLink) {
@@ -33,14 +69,142 @@ export default abstract class AbstractNodeDriver {
         return headers;
     };
 
-    protected async eventHandler(data: string): Promise<boolean> {
-        return new Promise((resolve) => {
-            if (!this.node) return resolve(false);
+    /**
+     * The headers of the WebSocket connection
+     * @type {Record<string, string>}
+     */
+    protected get webSocketHeaders(): Record<string, string> {
+        return {
+            Authorization: this.node!.options.password,
+            "User-Id": this.manager!.library.userID,
+            "Client-Name": this.clientId
+        };
+    };
+
+    public init(manager: HarmonyLink, node: Node): void {
+        this.manager = manager;
+        this.clientId = `${manager.config.name}/${manager.config.version} (${manager.config.github})`;
+        this.node = node;
+
+        this.wsUrl = `${(node.options.secure) ? "wss" : "ws"}://${node.options.host}:${node.options.port}`;
+        this.httpUrl = `${(node.options.secure) ? "https" : "http"}://${node.options.host}:${node.options.port}`;
+
+        this.agent?.destroy();
+        this.agent = createPoolAgent(node.options.secure, manager.options.connectionPool, node.options.transport.tls);
+        this.requests = new RequestHandler(this, node);
+    };
+
+    public async connect(): Promise<ws> {
+        return new Promise<ws>((resolve, reject) => {
+            if (!this.isRegistered) return reject(new Error("Node is not registered. Please register it by using <AbstractNodeDriver>.init()"));
+            if (!this.manager?.isReady || !this.manager.library.userID) return reject(new Error("User ID is not set. Please set it before connecting. Is this really a valid library?"));
+
+            const wsClient = this.createWebSocket(`${this.wsUrl}/v4/websocket`, { headers: { ...this.webSocketHeaders, ...this.node!.options.transport.headers } });
 
-            return resolve(this.node.emit("lavalinkEvent", data.toString()))
+            this.wsClient = wsClient;
+            this.wsClient.on("open", this.openHandler.bind(this));
+            this.wsClient.on("message", this.eventHandler.bind(this));
+            this.wsClient.on("error", this.errorHandler.bind(this));
+            this.wsClient.on("close", this.closeHandler.bind(this));
+
+            return resolve(wsClient);
         });
     };
 
+    public wsClose(withoutEmit: boolean = false): void {
+        const wsClient = this.wsClient;
+
+        wsClient?.removeAllListeners()
+        this.wsClient = undefined;
+
+        if (withoutEmit) {
+            // Closing a socket that is still connecting emits an error, which is expected here.
+            wsClient?.once("error", () => undefined);
+            wsClient?.close(1000, "Self Closed");
+            this.manager?.emit("nodeDisconnect", this.node!, 1000);
+        };
+    };
+
+    /**
+     * Closes the pooled connections of the node. The driver can not send requests with the pooled fetch afterwards.
+     */
+    public destroy(): void {
+        this.agent?.destroy();
+        this.agent = null;
+    };
+
+    /**
+     * Sends a request to the node. Subclasses change how requests are built and answers are read with
+     * `apiPath`, `transformPayload` and `normalizeResponse`.
+     * @param {HarmonyLinkRequesterOptions} options The options of the request
+     * @returns {Promise<T | undefined>} The normalized answer, or undefined if the node answered with 204
+     */
+    public async request<T = unknown>(options: HarmonyLinkRequesterOptions): Promise<T | undefined> {
+        if (!this.isRegistered) throw new Error("Node is not registered. Please register it by using <AbstractNodeDriver>.init()");
+        if (options.path.includes("/sessions") && this.sessionId === null) throw new Error(`[HarmonyLink] [Node ${this.node?.options.name}] Session ID is not set. Please wait for the node to be connected.`);
+
+        await this.requests!.interceptRequest(options);
+
+        if (options.path === "/decodetrack" || options.path === "/decodetracks") return await this.decodeTracks(options) as T;
+
+        // The version endpoint is the only one that is not versioned
+        const url = new URL(`${this.httpUrl}${options.path.startsWith("/version") ? "" : this.apiPath}${options.path}`);
+
+        if (options.params) url.search = new URLSearchParams(options.params).toString();
+        if (options.data) options.body = JSON.stringify(this.transformPayload(options));
+
+        // Only the fetch options are passed on, as a custom fetch does not expect the options of the requester.
+        const data = await this.requests!.send(url, {
+            method: options.method,
+            headers: { ...this.defaultHeaders, ...options.headers },
+            body: options.body,
+            signal: options.signal
+        }, options);
+
+        return data === undefined ? undefined : this.normalizeResponse(data, options) as T;
+    };
+
+    /**
+     * Set the session id of the node this driver is connected to
+     * @param {string} sessionId The session id to set
+     */
+    public setSessionId(sessionId: string): void {
+        this.sessionId = sessionId;
+    };
+
+    /**
+     * Parses a WebSocket message, runs the packet interceptors and passes the packet to the node
+     * @param {string} data The message of the node
+     * @returns {boolean} Whether the packet has been passed to the node
+     */
+    protected eventHandler(data: string): boolean {
+        if (!this.node) return false;
+
+        let packet: LavalinkPackets | null;
+
+        try {
+            packet = this.transformPacket(JSON.parse(data.toString()) as Record<string, unknown>);
+        } catch (err) {
+            this.manager?.emit("debug", `[HarmonyLink] [Node Driver ${this.node.options.name}] [Web Socket] Error while parsing the payload.`, err);
+            return false;
+        };
+
+        for (const interceptor of this.requests?.interceptors ?? []) {
+            if (!interceptor.onPacket) continue;
+
+            try {
+                const result = interceptor.onPacket(packet, this.node);
+                if (result !== undefined) packet = result;
+            } catch (err) {
+                this.manager?.emit("debug", `[HarmonyLink] [Node Driver ${this.node.options.name}] A packet interceptor threw an error, the packet is passed on unchanged.`, err);
+            };
+
+            if (!packet) return false;
+        };
+
+        return this.node.emit("lavalinkEvent", packet);
+    };
+
     protected async openHandler(): Promise<boolean> {
         return new Promise((resolve) => {
             if (!this.node) return resolve(false);
@@ -65,15 +229,88 @@ export default abstract class AbstractNodeDriver {
         });
     };
 
-    protected decoder: (base64EncodedTrack: string) => TrackData | null = (base64EncodedTrack: string) => new Decoder(base64EncodedTrack, this.type).getTrack ?? null;
+    /**
+     * Creates the error for requests a node does not support, as if the node answered with 404.
+     * @param {HarmonyLinkRequesterOptions} options The options of the request
+     * @param {string} message Why the request is not supported
+     * @returns {HarmonyLinkRestError} The error
+     */
+    protected unsupported(options: HarmonyLinkRequesterOptions, message: string): HarmonyLinkRestError {
+        const node = this.node?.options.name ?? "Unknown";
+
+        return new HarmonyLinkValidationError(message, {
+            node,
+            method: options.method,
+            path: options.path,
+            status: 404,
+            body: { timestamp: Date.now(), status: 404, error: "Not Found", message, path: options.path }
+        });
+    };
 
-    public abstract init(manager: HarmonyLink, node: Node): void;
+    /**
+     * Decodes the tracks locally and only asks the node for the tracks that could not be decoded
+     * @param {HarmonyLinkRequesterOptions} options The options of the request
+     * @returns {Promise<TrackData[]>} The decoded tracks
+     */
+    protected async decodeTracks(options: HarmonyLinkRequesterOptions): Promise<TrackData[]> {
+        const encodedTracks = options.data ? options.data as string[] : [(options.params as Record<string, string>).encodedTrack];
+        const data: TrackData[] = [];
+        const failedTracks: string[] = [];
 
-    public abstract connect(): Promise<ws>;
+        for (const track of encodedTracks) {
+            const trackData = this.decoder(track);
 
-    public abstract wsClose(withoutEmit?: boolean): void
+            if (trackData) data.push(trackData);
+            else failedTracks.push(track);
+        };
 
-    public abstract updateSessions(sessionId: string, mode: boolean, timeout: number): Promise<void>
+        if (failedTracks.length > 0) {
+            const decodeOptions: HarmonyLinkRequesterOptions = { ...options, method: "POST", path: "/decodetracks" };
 
-    public abstract request<T = unknown>(options: HarmonyLinkRequesterOptions): Promise<T | undefined>
+            const decoded = await this.requests!.send(new URL(`${this.httpUrl}${this.apiPath}/decodetracks`), {
+                method: "POST",
+                headers: { ...this.defaultHeaders, ...options.headers },
+                body: JSON.stringify(failedTracks)
+            }, decodeOptions);
+
+            data.push(...(this.normalizeResponse(decoded, decodeOptions) as TrackData[]));
+        };
+
+        return data;
+    };
+
+    /**
+     * Converts the data of a request to the payload the node expects
+     * @param {HarmonyLinkRequesterOptions} options The options of the request
+     * @returns {unknown} The payload, which is sent as JSON
+     */
+    // eslint-disable-next-line class-methods-use-this
+    protected transformPayload(options: HarmonyLinkRequesterOptions): unknown {
+        return options.data;
+    };
+
+    /**
+     * Converts the answer of the node to the format of Lavalink v4
+     * @param {unknown} data The parsed answer
+     * @param {HarmonyLinkRequesterOptions} _options The options of the request
+     * @returns {unknown} The normalized answer
+     */
+    // eslint-disable-next-line class-methods-use-this
+    protected normalizeResponse(data: unknown, _options: HarmonyLinkRequesterOptions): unknown {
+        return data;
+    };
+
+    /**
+     * Converts a parsed WebSocket message to a packet, for nodes whose packets differ from Lavalink's
+     * @param {Record<string, unknown>} data The parsed message
+     * @returns {LavalinkPackets} The packet
+     */
+    // eslint-disable-next-line class-methods-use-this
+    protected transformPacket(data: Record<string, unknown>): LavalinkPackets {
+        return data as unknown as LavalinkPackets;
+    };
+
+    protected decoder: (base64EncodedTrack: string) => TrackData | null = (base64EncodedTrack: string) => new Decoder(base64EncodedTrack, this.type).getTrack ?? null;
+
+    public abstract updateSessions(sessionId: string, mode: boolean, timeout: number): Promise<void>
 };
\ No newline at end of file
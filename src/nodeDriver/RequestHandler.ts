@@ -0,0 +1,241 @@
+import { setTimeout as sleep } from "timers/promises";
+
+import AbstractNodeDriver from "./AbstractNodeDriver";
+import { HarmonyLink } from "@/HarmonyLink";
+import { Node } from "@/node/Node";
+import {
+    HarmonyLinkConnectionError,
+    HarmonyLinkHTTPError,
+    HarmonyLinkRestError,
+    HarmonyLinkTimeoutError,
+    HarmonyLinkValidationError
+} from "@/errors/HarmonyLinkRestError";
+import { HarmonyLinkRequesterOptions } from "@t/node";
+import { NodeErrorContext, NodeInterceptor, NodeResponseContext } from "@t/node/interceptors";
+import { ErrorResponses } from "@t/node/rest";
+
+/**
+ * Gets the codes of an error and of the errors that caused it, as every fetch wraps the error of the connection differently
+ * @param {unknown} error The error
+ * @returns {string[]} The codes, the outermost first
+ */
+function getErrorCodes(error: unknown): string[] {
+    const codes: string[] = [];
+
+    // The depth is limited, as a cause can point back to an error of the chain.
+    for (let current = error, depth = 0; current instanceof Object && depth < 10; depth++) {
+        const { code, cause } = current as { code?: unknown; cause?: unknown };
+        if (typeof code === "string") codes.push(code);
+
+        current = cause;
+    };
+
+    return codes;
+};
+
+/**
+ * Sends the REST requests of a node driver, with the timeouts, retries and interceptors of the node
+ */
+export default class RequestHandler {
+    public readonly driver: AbstractNodeDriver;
+    public readonly node: Node;
+
+    public constructor(driver: AbstractNodeDriver, node: Node) {
+        this.driver = driver;
+        this.node = node;
+    };
+
+    public get manager(): HarmonyLink {
+        return this.node.manager;
+    };
+
+    /**
+     * The interceptors of the node, the global ones first
+     * @type {NodeInterceptor[]}
+     */
+    public get interceptors(): NodeInterceptor[] {
+        return [...this.manager.options.interceptors ?? [], ...this.node.options.interceptors];
+    };
+
+    /**
+     * Sends a request to the node and throws a `HarmonyLinkRestError` when it fails.
+     * Failed requests are retried with an exponential backoff as long as retrying is safe.
+     * @param {URL} url The URL to send the request to
+     * @param {RequestInit} init The options of fetch
+     * @param {HarmonyLinkRequesterOptions} options The options of the request, used for the timeout, retries and error details
+     * @returns {Promise<unknown>} The parsed answer of a 2xx response, or undefined if the node answered with 204
+     */
+    public async send(url: URL, init: RequestInit, options: HarmonyLinkRequesterOptions): Promise<unknown> {
+        if (this.manager.options.trace) url.searchParams.set("trace", "true");
+
+        const retries = options.retries ?? this.node.options.requestRetries;
+        const startedAt = Date.now();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const res = await this.sendOnce(url, init, options);
+                const body = await this.readResponse(res, options);
+                await this.interceptResponse({ url, options, status: res.status, body, duration: Date.now() - startedAt, attempts: attempt });
+
+                return body;
+            } catch (err) {
+                if (!(err instanceof HarmonyLinkRestError)) throw err;
+
+                const delay = attempt > retries ? null : this.getRetryDelay(err, options, attempt);
+                if (delay === null) {
+                    await this.interceptError({ url, options, error: err, duration: Date.now() - startedAt, attempts: attempt });
+                    throw err;
+                };
+
+                this.manager.emit("debug", `[HarmonyLink] [Node Driver ${this.node.options.name}] Retrying the ${options.method} request to ${options.path} in ${delay}ms. [${attempt}/${retries}]`);
+                this.manager.emit("requestRetry", this.node, err, attempt, delay);
+
+                await sleep(delay);
+            };
+        };
+    };
+
+    /**
+     * Runs the `beforeRequest` interceptors. Drivers call this before building a request from the options.
+     * An interceptor that throws cancels the request with a `HarmonyLinkRestError` caused by its error.
+     * @param {HarmonyLinkRequesterOptions} options The options of the request, which the interceptors can change
+     * @returns {Promise<HarmonyLinkRequesterOptions>} The options
+     */
+    public async interceptRequest(options: HarmonyLinkRequesterOptions): Promise<HarmonyLinkRequesterOptions> {
+        for (const interceptor of this.interceptors) {
+            try {
+                await interceptor.beforeRequest?.({ node: this.node, options });
+            } catch (err) {
+                if (err instanceof HarmonyLinkRestError) throw err;
+
+                throw new HarmonyLinkRestError(`A request interceptor cancelled the request. ${(err as Error | undefined)?.message ?? String(err)}`, {
+                    node: this.node.options.name,
+                    method: options.method,
+                    path: options.path,
+                    cause: err
+                });
+            };
+        };
+
+        return options;
+    };
+
+    protected async sendOnce(url: URL, init: RequestInit, options: HarmonyLinkRequesterOptions): Promise<Response> {
+        const details = { node: this.node.options.name, method: options.method, path: options.path };
+        const timeout = options.timeout ?? this.node.options.requestTimeout;
+
+        // The signal of the caller still aborts the request, next to the timeout.
+        const controller = new AbortController();
+        const abort = (): void => controller.abort(init.signal?.reason);
+        const timer = setTimeout(() => controller.abort(Object.assign(new Error(`Timed out after ${timeout}ms`), { name: "TimeoutError" })), timeout);
+
+        if (init.signal?.aborted) abort();
+        else init.signal?.addEventListener("abort", abort, { once: true });
+
+        let res: Response;
+
+        try {
+            res = await this.driver.fetch(url, { ...init, signal: controller.signal });
+        } catch (err) {
+            if (err instanceof Error && err.name === "TimeoutError") throw new HarmonyLinkTimeoutError(`The node did not answer in ${timeout}ms.`, { ...details, cause: err });
+            if (err instanceof Error && err.name === "AbortError") throw new HarmonyLinkRestError("The request has been aborted.", { ...details, cause: err });
+
+            throw new HarmonyLinkConnectionError(`Could not reach the node. ${(err as Error).message}`, { ...details, cause: err });
+        } finally {
+            clearTimeout(timer);
+            init.signal?.removeEventListener("abort", abort);
+        };
+
+        if (res.ok) return res;
+
+        const body = res.headers.get("content-type")?.includes("application/json") ? await res.json().catch(() => null) as ErrorResponses | null : null;
+        const message = `The node answered with ${res.status} ${res.statusText}.${body?.message ? ` ${body.message}` : ""}`;
+
+        // Retry-After is either in seconds or a HTTP date
+        const retryAfterHeader = res.headers.get("retry-after") ?? "";
+        let retryAfter = Number(retryAfterHeader) * 1000;
+        if (Number.isNaN(retryAfter)) retryAfter = Date.parse(retryAfterHeader) - Date.now();
+
+        this.manager.emit("debug", `[HarmonyLink] [Node Driver ${details.node}] ${options.method} request to ${options.path} returned ${res.status} ${res.statusText}. payload=${options.body ? String(options.body) : "{}"}`);
+
+        const errorOptions = { ...details, status: res.status, body, retryAfter: retryAfterHeader && !Number.isNaN(retryAfter) ? Math.max(retryAfter, 0) : null };
+
+        if (res.status >= 400 && res.status < 500) throw new HarmonyLinkValidationError(message, errorOptions);
+        throw new HarmonyLinkHTTPError(message, errorOptions);
+    };
+
+    /**
+     * Gets the delay before retrying a failed request, or null when retrying is not safe.
+     * @param {HarmonyLinkRestError} error Why the request failed
+     * @param {HarmonyLinkRequesterOptions} options The options of the request
+     * @param {number} attempt The number of the retry
+     * @returns {number | null} The delay in milliseconds
+     */
+    protected getRetryDelay(error: HarmonyLinkRestError, options: HarmonyLinkRequesterOptions, attempt: number): number | null {
+        const backoff = this.node.options.requestRetryDelay * (2 ** (attempt - 1));
+        const isIdempotent = options.idempotent ?? options.method === "GET";
+
+        let delay: number | null = null;
+
+        if (error.status === 429 || error.status === 503) delay = error.retryAfter ?? backoff;
+        else if (error instanceof HarmonyLinkHTTPError) delay = isIdempotent && error.status >= 500 ? backoff : null;
+        else if (error instanceof HarmonyLinkTimeoutError) delay = isIdempotent ? backoff : null;
+        else if (error instanceof HarmonyLinkConnectionError) {
+            // These fail before the request is sent, so the node can not have processed it. A reset connection can come after it did.
+            const codes = getErrorCodes(error.cause);
+            delay = isIdempotent || codes.some(code => ["EAI_AGAIN", "ECONNREFUSED", "ENOTFOUND"].includes(code)) ? backoff : null;
+        };
+
+        // Waiting longer than this freezes the player for too long, so the error is thrown instead.
+        return delay !== null && delay <= 30_000 ? delay : null;
+    };
+
+    /**
+     * Runs the `afterResponse` interceptors
+     * @param {Omit<NodeResponseContext, "node">} context The response
+     * @returns {Promise<void>} void
+     */
+    protected async interceptResponse(context: Omit<NodeResponseContext, "node">): Promise<void> {
+        for (const interceptor of this.interceptors) {
+            try {
+                await interceptor.afterResponse?.({ ...context, node: this.node });
+            } catch (err) {
+                this.manager.emit("debug", `[HarmonyLink] [Node Driver ${this.node.options.name}] A response interceptor threw an error.`, err);
+            };
+        };
+    };
+
+    /**
+     * Runs the `onError` interceptors
+     * @param {Omit<NodeErrorContext, "node">} context The failed request
+     * @returns {Promise<void>} void
+     */
+    protected async interceptError(context: Omit<NodeErrorContext, "node">): Promise<void> {
+        for (const interceptor of this.interceptors) {
+            try {
+                await interceptor.onError?.({ ...context, node: this.node });
+            } catch (err) {
+                this.manager.emit("debug", `[HarmonyLink] [Node Driver ${this.node.options.name}] An error interceptor threw an error.`, err);
+            };
+        };
+    };
+
+    /**
+     * Reads the answer of the node. It is normalized by the caller, after the interceptors have seen it.
+     * @param {Response} res The response
+     * @param {HarmonyLinkRequesterOptions} options The options of the request
+     * @returns {Promise<unknown>} The parsed answer, or undefined if the node answered with 204
+     */
+    protected async readResponse(res: Response, options: HarmonyLinkRequesterOptions): Promise<unknown> {
+        if (res.status === 204) {
+            this.manager.emit("debug", `[HarmonyLink] [Node Driver ${this.node.options.name}] ${options.method} request to ${options.path} returned 204 No Content. payload=${options.body ? String(options.body) : "{}"}`);
+            return undefined;
+        };
+
+        const data: unknown = res.headers.get("content-type")?.includes("application/json") ? await res.json() : await res.text();
+
+        this.manager.emit("debug", `[HarmonyLink] [Node Driver ${this.node.options.name}] ${options.method} request to ${options.path} returned ${res.status} ${res.statusText}. payload=${options.body ? String(options.body) : "{}"}`);
+
+        return data;
+    };
+};
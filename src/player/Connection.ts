@@ -31,6 +31,22 @@ export class ConnectionHandler {
         this.options.voice.token = data.token;
         this.options.voiceRegion = data.endpoint.split(".").shift()?.replace(/[0-9]/g, "") ?? null;
 
+        if (this.options.voiceRegion && !this.player.node.servesRegion(this.options.voiceRegion)) {
+            const regionNode = this.player.manager.nodeManager.getRegionNode(this.options.voiceRegion);
+
+            // Moving the player sends the voice server to the new node, otherwise we stay on the current node.
+            if (regionNode) {
+                try {
+                    await this.player.moveNode(regionNode);
+                    this.player.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Moved player ${this.player.guildId} to the node ${regionNode.options.name} serving the region ${this.options.voiceRegion}.`);
+
+                    return;
+                } catch (err) {
+                    this.player.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Failed to move player ${this.player.guildId} to the node ${regionNode.options.name} serving the region ${this.options.voiceRegion}. Staying on the current node.`, err);
+                };
+            };
+        };
+
         await this.player.node.rest.updatePlayer({
             guildId: this.player.guildId,
             playerOptions: {
@@ -0,0 +1,287 @@
+// Types
+import { Player } from "./Player";
+import {
+    Band,
+    FilterPreset,
+    FiltersOptions,
+    channelMixOptions,
+    distortionOptions,
+    karaokeOptions,
+    lowPassOptions,
+    rotationOptions,
+    timescaleOptions,
+    tremoloOptions,
+    vibratoOptions
+} from "@t/player/filters";
+
+export class Filters {
+    public readonly player: Player;
+
+    /**
+     * The filters that are currently applied on the node
+     */
+    public applied: Partial<FiltersOptions> = {};
+
+    /**
+     * The names of the presets that are currently active
+     */
+    public readonly presets = new Set<string>();
+
+    /**
+     * The changes that are not yet applied on the node. A value of `null` means that the filter will be removed.
+     */
+    protected changes: { [K in keyof FiltersOptions]?: FiltersOptions[K] | null } = {};
+
+    public constructor(player: Player) {
+        this.player = player;
+    };
+
+    /**
+     * Whether there are changes that are not yet applied on the node.
+     * @type {boolean}
+     */
+    public get hasChanges(): boolean {
+        return Object.keys(this.changes).length !== 0;
+    };
+
+    /**
+     * Sets the volume filter. This is a multiplier and is independent from the player volume.
+     * @param {number | null} volume - The volume multiplier from 0 to 5, or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setVolume(volume: number | null): this {
+        if (volume !== null && (volume < 0 || volume > 5)) throw new RangeError("[HarmonyLink] [Player] [Filters] The volume filter must be between 0 and 5.");
+
+        return this.set("volume", volume);
+    };
+
+    /**
+     * Sets the equalizer filter.
+     * @param {Band[] | null} bands - The bands to set (band 0 to 14, gain -0.25 to 1), or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setEqualizer(bands: Band[] | null): this {
+        if (bands?.some(({ band, gain }) => band < 0 || band > 14 || gain < -0.25 || gain > 1)) throw new RangeError("[HarmonyLink] [Player] [Filters] The equalizer bands must be between 0 and 14 and the gain between -0.25 and 1.");
+
+        return this.set("equalizer", bands);
+    };
+
+    /**
+     * Sets the karaoke filter.
+     * @param {karaokeOptions | null} options - The karaoke options, or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setKaraoke(options: karaokeOptions | null): this {
+        return this.set("karaoke", options);
+    };
+
+    /**
+     * Sets the timescale filter.
+     * @param {timescaleOptions | null} options - The timescale options, or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setTimescale(options: timescaleOptions | null): this {
+        if (options && Object.values(options).some((value: number) => value < 0)) throw new RangeError("[HarmonyLink] [Player] [Filters] The timescale speed, pitch and rate must be greater than or equal to 0.");
+
+        return this.set("timescale", options);
+    };
+
+    /**
+     * Sets the tremolo filter.
+     * @param {tremoloOptions | null} options - The tremolo options, or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setTremolo(options: tremoloOptions | null): this {
+        if (options && (options.frequency <= 0 || options.depth <= 0 || options.depth > 1)) throw new RangeError("[HarmonyLink] [Player] [Filters] The tremolo frequency must be greater than 0 and the depth between 0 and 1.");
+
+        return this.set("tremolo", options);
+    };
+
+    /**
+     * Sets the vibrato filter.
+     * @param {vibratoOptions | null} options - The vibrato options, or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setVibrato(options: vibratoOptions | null): this {
+        if (options && (options.frequency <= 0 || options.frequency > 14 || options.depth <= 0 || options.depth > 1)) throw new RangeError("[HarmonyLink] [Player] [Filters] The vibrato frequency must be between 0 and 14 and the depth between 0 and 1.");
+
+        return this.set("vibrato", options);
+    };
+
+    /**
+     * Sets the rotation filter.
+     * @param {rotationOptions | null} options - The rotation options, or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setRotation(options: rotationOptions | null): this {
+        return this.set("rotation", options);
+    };
+
+    /**
+     * Sets the distortion filter.
+     * @param {distortionOptions | null} options - The distortion options, or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setDistortion(options: distortionOptions | null): this {
+        return this.set("distortion", options);
+    };
+
+    /**
+     * Sets the channel mix filter.
+     * @param {channelMixOptions | null} options - The channel mix options (each from 0 to 1), or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setChannelMix(options: channelMixOptions | null): this {
+        if (options && Object.values(options).some((value: number) => value < 0 || value > 1)) throw new RangeError("[HarmonyLink] [Player] [Filters] The channel mix values must be between 0 and 1.");
+
+        return this.set("channelMix", options);
+    };
+
+    /**
+     * Sets the low pass filter.
+     * @param {lowPassOptions | null} options - The low pass options, or null to remove the filter.
+     * @returns {Filters} The filters instance.
+     */
+    public setLowPass(options: lowPassOptions | null): this {
+        return this.set("lowPass", options);
+    };
+
+    /**
+     * Adds the filters of a preset and applies them. Presets can be combined as long as they do not set the same filters.
+     * Nothing changes if the filters could not be applied.
+     * @param {string} name - The name of the preset.
+     * @param {FilterPreset} preset - The filters of the preset.
+     * @param {Map<string, FilterPreset>} registry - The registered presets to check for conflicts.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async addPreset(name: string, preset: FilterPreset, registry: Map<string, FilterPreset>): Promise<Player> {
+        for (const active of this.presets) {
+            if (active === name) continue;
+
+            const conflicts = Object.keys(preset).filter(key => key in (registry.get(active) ?? {}));
+            if (conflicts.length !== 0) throw new Error(`[HarmonyLink] [Player] [Filters] The preset ${name} conflicts with the active preset ${active} on the filters: ${conflicts.join(", ")}`);
+        };
+
+        return this.applyPresetChange(() => {
+            for (const [key, value] of Object.entries(preset) as [keyof FiltersOptions, FiltersOptions[keyof FiltersOptions]][]) {
+                this.set(key, value);
+            };
+
+            this.presets.add(name);
+        });
+    };
+
+    /**
+     * Removes the filters of a preset and applies the change. Nothing changes if the filters could not be applied.
+     * @param {string} name - The name of the preset.
+     * @param {FilterPreset} preset - The filters of the preset.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async removePreset(name: string, preset: FilterPreset): Promise<Player> {
+        if (!this.presets.has(name)) return this.player;
+
+        return this.applyPresetChange(() => {
+            for (const key of Object.keys(preset) as (keyof FiltersOptions)[]) {
+                this.set(key, null);
+            };
+
+            this.presets.delete(name);
+        });
+    };
+
+    /**
+     * Removes every filter. The changes are sent to the node with `apply()`.
+     * @returns {Filters} The filters instance.
+     */
+    public clear(): this {
+        this.changes = {};
+        this.presets.clear();
+
+        for (const key of Object.keys(this.applied) as (keyof FiltersOptions)[]) {
+            this.changes[key] = null;
+        };
+
+        return this;
+    };
+
+    /**
+     * Gets the filters as they will be on the node after `apply()` has been called.
+     * @returns {Partial<FiltersOptions>} The filters.
+     */
+    public get(): Partial<FiltersOptions> {
+        const filters: Record<string, unknown> = { ...this.applied };
+
+        for (const [key, value] of Object.entries(this.changes)) {
+            // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+            if (value === null) delete filters[key];
+            else filters[key] = value;
+        };
+
+        return filters as Partial<FiltersOptions>;
+    };
+
+    /**
+     * Sends the filters to the node with a single update.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async apply(): Promise<Player> {
+        const filters = this.get();
+
+        const info = await this.player.node.getInfo();
+        const unsupported = info?.filters ? Object.keys(filters).filter(filter => !info.filters.includes(filter)) : [];
+
+        if (unsupported.length !== 0) throw new Error(`[HarmonyLink] [Player] [Filters] The node ${this.player.node.options.name} does not support the filters: ${unsupported.join(", ")}`);
+
+        await this.player.node.rest.updatePlayer({
+            guildId: this.player.guildId,
+            playerOptions: {
+                filters
+            }
+        });
+
+        this.applied = filters;
+        this.changes = {};
+
+        this.player.manager.emit("debug", `[HarmonyLink] [Player] [Filters] Applied the filters [${Object.keys(filters).join(", ")}] for player ${this.player.guildId}`);
+        void this.player.save();
+
+        return this.player;
+    };
+
+    /**
+     * Syncs the applied filters with the filters returned by the node.
+     * @param {Partial<FiltersOptions>} filters - The filters from the node.
+     * @returns {Filters} The filters instance.
+     */
+    public _syncFromAPI(filters: Partial<FiltersOptions>): this {
+        this.applied = { ...filters };
+        return this;
+    };
+
+    /**
+     * Makes a change to the presets and applies it, restoring the previous state if that fails.
+     * @param {() => void} change - The change to make.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    protected async applyPresetChange(change: () => void): Promise<Player> {
+        const changes = { ...this.changes };
+        const presets = [...this.presets];
+
+        change();
+
+        try {
+            return await this.apply();
+        } catch (err) {
+            this.changes = changes;
+            this.presets.clear();
+            for (const preset of presets) this.presets.add(preset);
+
+            throw err;
+        };
+    };
+
+    protected set<K extends keyof FiltersOptions>(key: K, value: FiltersOptions[K] | null): this {
+        this.changes[key] = value;
+        return this;
+    };
+};
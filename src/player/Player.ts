@@ -6,6 +6,7 @@ import { Queue } from './Queue';
 import { ConnectionHandler } from "./Connection";
 import { Track } from "./Track";
 import { Response } from "./Response";
+import { Filters } from "./Filters";
 
 // Types
 import { PlayerConnectionState, PlayerOptions, VoiceConnectionState, PlayerEvents, PlayerLoop, ResolveOptions } from "@t/player";
@@ -13,6 +14,8 @@ import { DiscordVoiceStates } from "@t/player/connection";
 import { Node } from "@/node/Node";
 import { HarmonyLink } from "@/HarmonyLink"
 import { LavalinkEventPacket } from "@t/node";
+import { PlayerObjectFromAPI } from "@t/node/rest";
+import { PlayerSnapshot, TrackSnapshot } from "@t/player/snapshot";
 
 export declare interface Player {
     on: <K extends keyof PlayerEvents>(event: K, listener: PlayerEvents[K]) => this;
@@ -25,12 +28,14 @@ export declare interface Player {
 }
 
 export class Player extends EventEmitter {
-    public readonly node: Node;
+    public node: Node;
     public readonly manager: HarmonyLink;
     public readonly ConnectionHandler: ConnectionHandler
     public readonly queue: Queue;
+    public readonly filters: Filters;
 
     public voiceChannelId: string;
+    public textChannelId: string;
     public guildId: string;
     public shardId: string;
     public isConnected: boolean;
@@ -49,6 +54,16 @@ export class Player extends EventEmitter {
     
     // Track Related
     public position: number;
+
+    /**
+     * The volume of the player in percentage, from 0 to 1000
+     */
+    public volume: number;
+
+    /**
+     * Whether the next `play()` is started by `previous()`, which puts the replaced track back in the queue instead of the history
+     */
+    protected isPlayingPrevious: boolean = false;
     
     public constructor(manager: HarmonyLink, node: Node, options: Omit<PlayerOptions, "shardId"> & { shardId?: string }) {
         super();
@@ -56,6 +71,7 @@ export class Player extends EventEmitter {
         this.node = node;
         this.manager = manager;
         this.voiceChannelId = options.voiceId,
+        this.textChannelId = options.textId;
         this.guildId = options.guildId;
         this.shardId = options.shardId ?? String(manager.library.shardID(this.guildId)) as string | undefined ?? "0";
 
@@ -66,6 +82,7 @@ export class Player extends EventEmitter {
         this.isPlaying = false;
         this.isPaused = false;
         this.position = 0;
+        this.volume = manager.options.defaultVolume ?? 100;
         this.isAutoplay = false;
         this.ping = -1;
         this.timestamp = 0;
@@ -73,7 +90,8 @@ export class Player extends EventEmitter {
 
         // Handlers
         this.ConnectionHandler = new ConnectionHandler(this)
-        this.queue = new Queue();
+        this.queue = new Queue(manager.options.historySize);
+        this.filters = new Filters(this);
 
         this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Player created for guild ${this.guildId} on node ${this.node.options.name}.`);
         this.manager.emit("playerCreate", this);
@@ -88,7 +106,26 @@ export class Player extends EventEmitter {
             this.manager.emit("playerUpdate", this, packet);
         });
 
-        this.on("event", this._eventHandler.bind(this));
+        // The handler sends requests to the node, so failures are reported instead of becoming unhandled rejections.
+        this.on("event", (packet: LavalinkEventPacket) => {
+            this._eventHandler(packet).catch((err: unknown) => {
+                this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Failed to handle the ${packet.type} for player ${this.guildId}.`, err);
+                this.manager.emit("nodeError", this.node, err as Error);
+            });
+        });
+    };
+
+    /**
+     * The position of the current track at this moment, as the last player update can be a few seconds old.
+     * @type {number}
+     */
+    public get estimatedPosition(): number {
+        const track = this.queue.currentTrack;
+        if (!track) return 0;
+
+        const elapsed = this.isPlaying && !this.isPaused && this.timestamp ? Math.max(Date.now() - this.timestamp, 0) : 0;
+
+        return Math.min(this.position + elapsed, track.info.length);
     };
 
     public async connect(): Promise<Player> {
@@ -169,6 +206,7 @@ export class Player extends EventEmitter {
                 };
             };
 
+            void this.save();
             return resolve(this);
         });
     };
@@ -178,6 +216,7 @@ export class Player extends EventEmitter {
             if (toggle) this.isAutoplay = toggle;
             else this.isAutoplay = !this.isAutoplay;
 
+            void this.save();
             return resolve(this);
         });
     };
@@ -189,6 +228,10 @@ export class Player extends EventEmitter {
     public async play(): Promise<Player> {
         if (!this.queue.length || this.queue.length === 0) return this;
 
+        // A track that is still loaded ends as replaced, so it has to be added to the history here.
+        const replacedTrack = this.isPlayingPrevious ? null : this.queue.currentTrack;
+        this.isPlayingPrevious = false;
+
         this.queue.currentTrack = this.queue.shift() ?? null;
         if (this.queue.currentTrack && !this.queue.currentTrack.track) this.queue.currentTrack = await this.queue.currentTrack.resolve(this.manager);
 
@@ -201,27 +244,121 @@ export class Player extends EventEmitter {
             }
         });
 
+        if (replacedTrack) {
+            this.queue.previousTrack = replacedTrack;
+            this.queue._addToHistory(replacedTrack);
+        };
+
         this.isPlaying = true;
         this.position = 0;
         this.isPaused = false;
 
+        void this.save();
+
         return this;
     };
 
+    /**
+     * Plays the last track from the history again. The current track is put back at the front of the queue.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async previous(): Promise<Player> {
+        const previousTrack = this.queue.history.pop();
+        if (!previousTrack) return this;
+
+        this.manager.emit("debug", `[HarmonyLink] [Player] Playing the previous track for player ${this.guildId}`);
+
+        if (this.queue.currentTrack) this.queue.unshift(this.queue.currentTrack);
+        this.queue.unshift(previousTrack);
+        this.queue.previousTrack = this.queue.history.at(-1) ?? null;
+        this.isPlayingPrevious = true;
+
+        return this.play();
+    };
+
     /**
      * Destroys the player and cleans up associated resources.
+     * @param {boolean} [deleteSnapshot=true] - Whether to delete the snapshot of the player from the player store.
      * @returns {Promise<boolean>} - A Promise that resolves to a boolean which is true if an element in the Map existed and has been removed, or false if the element does not exist.
      */
-    public async destroy(): Promise<boolean> {
+    public async destroy(deleteSnapshot: boolean = true): Promise<boolean> {
        await this.disconnect();
-       await this.node.rest.destroyPlayer(this.guildId);
 
-       this.manager.emit("debug", this.guildId, "[HarmonyLink] [Player] [Connection] Player destroyed");
-       this.manager.emit("playerDestroy", this.guildId);
+       // The player is cleaned up locally even when the node is unreachable or does not know it anymore.
+       await this.node.rest.destroyPlayer(this.guildId).catch((err: unknown) => {
+           this.manager.emit("debug", `[HarmonyLink] [Player] Failed to destroy the player ${this.guildId} on the node ${this.node.options.name}.`, err);
+       });
+       this.node.players.delete(this.guildId);
+
+       if (deleteSnapshot) {
+           try {
+               await this.manager.options.playerStore?.delete(this.guildId);
+           } catch (err) {
+               this.manager.emit("debug", `[HarmonyLink] [Player] Failed to delete the snapshot of player ${this.guildId}.`, err);
+           };
+       };
+
+       this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Player destroyed for guild ${this.guildId}`);
+       this.manager.emit("playerDestroy", this.guildId, this);
 
        return this.manager.playerManager.delete(this.guildId);
     };
 
+    /**
+     * Moves the player to another node. The player is destroyed on the current node and recreated on the target node with the same voice session, track, position, pause state, volume and filters.
+     * @param {Node} node - The node to move the player to.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async moveNode(node: Node): Promise<Player> {
+        if (node === this.node) return this;
+        if (!node.isReady) throw new Error(`[HarmonyLink] [Player] The node ${node.options.name} is not ready to move the player ${this.guildId} to.`);
+
+        const oldNode = this.node;
+        const { voice } = this.ConnectionHandler.options;
+        const track = this.queue.currentTrack;
+
+        const position = this.estimatedPosition;
+
+        // The player is created on the target first, so it keeps playing on the old node if that fails.
+        await node.rest.updatePlayer({
+            guildId: this.guildId,
+            playerOptions: {
+                voice: {
+                    endpoint: voice.endpoint!,
+                    token: voice.token!,
+                    sessionId: voice.sessionId!,
+                },
+                track: track ? { encoded: track.track } : undefined,
+                position: track && !track.info.isStream ? position : undefined,
+                paused: track ? this.isPaused : undefined,
+                volume: this.volume,
+                filters: this.filters.applied
+            }
+        });
+
+        oldNode.players.delete(this.guildId);
+
+        this.node = node;
+        node.players.set(this.guildId, this);
+
+        // A node that lost its connection has no player left to destroy, and the request would only wait for its retries.
+        if (oldNode.isConnected) {
+            try {
+                await oldNode.rest.destroyPlayer(this.guildId);
+            } catch (err) {
+                this.manager.emit("debug", `[HarmonyLink] [Player] Failed to destroy the player ${this.guildId} on the node ${oldNode.options.name} while moving it.`, err);
+            };
+        };
+
+        this.position = position;
+
+        this.manager.emit("debug", `[HarmonyLink] [Player] Moved the player ${this.guildId} from the node ${oldNode.options.name} to the node ${node.options.name}.`);
+        this.manager.emit("playerMove", this, oldNode, node);
+        void this.save();
+
+        return this;
+    };
+
     /**
      * Skips the current track.
      * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
@@ -264,6 +401,89 @@ export class Player extends EventEmitter {
         this.isPaused = toggle;
         this.isPlaying = !toggle;
 
+        void this.save();
+
+        return this;
+    };
+
+    /**
+     * Sets the volume of the player.
+     * @param {number} volume - The volume to set in percentage, from 0 to 1000.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async setVolume(volume: number): Promise<Player> {
+        if (!Number.isInteger(volume) || volume < 0 || volume > 1000) throw new RangeError("[HarmonyLink] [Player] The volume must be an integer between 0 and 1000.");
+
+        await this.node.rest.updatePlayer({
+            guildId: this.guildId,
+            playerOptions: {
+                volume,
+            }
+        });
+
+        this.volume = volume;
+        this.manager.emit("debug", `[HarmonyLink] [Player] Set the volume to ${volume}% for player ${this.guildId}`);
+
+        void this.save();
+
+        return this;
+    };
+
+    /**
+     * Applies a registered filter preset on top of the active filters and presets.
+     * @param {string} name - The name of the preset (e.g. "nightcore", "bassboost").
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async applyPreset(name: string): Promise<Player> {
+        const presetName = name.toLowerCase();
+        const preset = this.manager.presets.get(presetName);
+
+        if (!preset) throw new Error(`[HarmonyLink] [Player] [Filters] The preset ${name} is not registered.`);
+
+        return this.filters.addPreset(presetName, preset, this.manager.presets);
+    };
+
+    /**
+     * Removes an active filter preset and the filters it has set.
+     * @param {string} name - The name of the preset.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async removePreset(name: string): Promise<Player> {
+        const presetName = name.toLowerCase();
+        const preset = this.manager.presets.get(presetName);
+
+        if (!preset || !this.filters.presets.has(presetName)) return this;
+
+        return this.filters.removePreset(presetName, preset);
+    };
+
+    /**
+     * Seeks to a position in the current track.
+     * @param {number} position - The position to seek to in milliseconds. It will be clamped to the length of the track.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async seek(position: number): Promise<Player> {
+        const track = this.queue.currentTrack;
+
+        if (!track) throw new Error("[HarmonyLink] [Player] There is no track playing to seek in.");
+        if (track.info.isStream || !track.info.isSeekable) throw new Error(`[HarmonyLink] [Player] The track ${track.info.title} is not seekable.`);
+        if (!Number.isFinite(position)) throw new Error("[HarmonyLink] [Player] The position to seek to must be a finite number.");
+
+        const seekPosition = Math.min(Math.max(Math.floor(position), 0), track.info.length);
+
+        await this.node.rest.updatePlayer({
+            guildId: this.guildId,
+            playerOptions: {
+                position: seekPosition,
+            }
+        });
+
+        this.position = seekPosition;
+
+        this.manager.emit("debug", `[HarmonyLink] [Player] Seeked to ${seekPosition}ms for player ${this.guildId}`);
+        this.manager.emit("playerSeek", this, seekPosition);
+        void this.save();
+
         return this;
     };
 
@@ -278,7 +498,7 @@ export class Player extends EventEmitter {
 
         const result = await node.rest.loadTrack(query, source);
 
-        return new Response(result, requester);
+        return new Response(result, requester, node, source ?? this.manager.options.defaultPlatform);
     };
 
     /**
@@ -327,7 +547,108 @@ export class Player extends EventEmitter {
         }
     }
 
-    protected async disconnect(): Promise<Player> {
+    /**
+     * Converts the player into a snapshot, which can be stored as JSON and restored with `restore()`.
+     * @returns {PlayerSnapshot} - The snapshot of the player.
+     */
+    public toJSON(): PlayerSnapshot {
+        const serialize = this.manager.options.requesterSerializer?.serialize;
+        const serializeTrack = (track: TrackSnapshot): TrackSnapshot => (serialize ? { ...track, requester: serialize(track.requester) } : track);
+
+        const queue = this.queue.toJSON();
+
+        return {
+            guildId: this.guildId,
+            voiceId: this.voiceChannelId,
+            textId: this.textChannelId,
+            shardId: this.shardId,
+            mute: this.ConnectionHandler.options.selfMute,
+            deaf: this.ConnectionHandler.options.selfDeaf,
+            node: this.node.options.name,
+            loop: this.loop,
+            isAutoplay: this.isAutoplay,
+            isPaused: this.isPaused,
+            position: this.estimatedPosition,
+            volume: this.volume,
+            filters: this.filters.applied,
+            queue: {
+                current: queue.current ? serializeTrack(queue.current) : null,
+                previous: queue.previous ? serializeTrack(queue.previous) : null,
+                tracks: queue.tracks.map(serializeTrack),
+                history: queue.history.map(serializeTrack)
+            },
+            savedAt: Date.now()
+        };
+    };
+
+    /**
+     * Restores the queue, loop mode, autoplay, volume and filters of a snapshot and continues the current track at the saved position.
+     * @param {PlayerSnapshot} snapshot - The snapshot to restore.
+     * @param {boolean} [resumePlayback=true] - Whether to send the track, position, volume and filters to the node. Disable it when the node still plays the track, e.g. after resuming a session.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async restore(snapshot: PlayerSnapshot, resumePlayback: boolean = true): Promise<Player> {
+        const playingTrack = this.queue.currentTrack;
+
+        this.queue._restore(snapshot.queue, this.manager.options.requesterSerializer?.deserialize);
+        this.loop = snapshot.loop;
+        this.isAutoplay = snapshot.isAutoplay;
+
+        if (!resumePlayback) {
+            // The node knows better what is playing, the snapshot only adds the requester when it is the same track.
+            if (playingTrack?.track !== this.queue.currentTrack?.track) this.queue.currentTrack = playingTrack;
+
+            void this.save();
+            return this;
+        };
+
+        const track = this.queue.currentTrack;
+
+        await this.node.rest.updatePlayer({
+            guildId: this.guildId,
+            playerOptions: {
+                track: track ? { encoded: track.track } : undefined,
+                position: track && !track.info.isStream ? Math.min(snapshot.position, track.info.length) : undefined,
+                paused: track ? snapshot.isPaused : undefined,
+                volume: snapshot.volume,
+                filters: snapshot.filters
+            }
+        });
+
+        this.volume = snapshot.volume;
+        this.filters._syncFromAPI(snapshot.filters);
+        this.isPlaying = Boolean(track) && !snapshot.isPaused;
+        this.isPaused = Boolean(track) && snapshot.isPaused;
+        this.position = track ? snapshot.position : 0;
+
+        this.manager.emit("debug", `[HarmonyLink] [Player] Restored the snapshot for player ${this.guildId} with ${this.queue.length} queued tracks.`);
+        void this.save();
+
+        return this;
+    };
+
+    /**
+     * Saves the snapshot of the player to the player store. Errors of the store are emitted as debug messages.
+     * The player saves itself in the background whenever its state changes, so this only has to be awaited to be sure the snapshot is stored.
+     * @returns {Promise<void>}
+     */
+    public async save(): Promise<void> {
+        const store = this.manager.options.playerStore;
+        // Destroyed players must not bring their snapshot back
+        if (!store || this.manager.playerManager.get(this.guildId) !== this) return;
+
+        try {
+            await store.set(this.guildId, this.toJSON());
+        } catch (err) {
+            this.manager.emit("debug", `[HarmonyLink] [Player] Failed to save the snapshot of player ${this.guildId}.`, err);
+        };
+    };
+
+    /**
+     * Leaves the voice channel and clears the queue, without destroying the player on the node.
+     * @returns {Promise<Player>} - A Promise that resolves to the Player instance.
+     */
+    public async disconnect(): Promise<Player> {
         if (!this.voiceChannelId) return this;
         this.queue._cleanUp()
         await this.skip();
@@ -346,6 +667,19 @@ export class Player extends EventEmitter {
         return this;
     };
 
+    /**
+     * Syncs the local state of the player with the player object returned by the node.
+     * @param {PlayerObjectFromAPI} data - The player object from the node.
+     * @returns {Player} - The Player instance.
+     */
+    public _syncFromAPI(data: PlayerObjectFromAPI): this {
+        if (typeof data.volume === "number") this.volume = data.volume;
+        // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
+        if (data.filters) this.filters._syncFromAPI(data.filters);
+
+        return this;
+    };
+
     protected checkDestroyed(): void {
 		if (this.state === PlayerConnectionState.DESTROYED) throw new Error('[HarmonyLink] [Player] [Connection] Player is already destroyed');
 	};
@@ -374,28 +708,37 @@ export class Player extends EventEmitter {
                 
                 this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Track started for player ${this.guildId}`)
                 this.manager.emit("trackStart", this, this.queue.currentTrack);
+                void this.save();
 
                 break;
             };
 
             case "TrackEndEvent": {
+                // The replacing track is already the current track and `play()` added the replaced one to the history, so the state must stay untouched.
+                if (data.reason === "replaced") {
+                    this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Track replaced for player ${this.guildId}`)
+                    return this.manager.emit("trackEnd", this, new Track(data.track), data.reason);
+                };
+
+                const endedTrack = this.queue.currentTrack;
+
                 this.isPlaying = false;
                 this.isPaused = true;
 
-                if (this.queue.currentTrack) this.queue.previousTrack = this.queue.currentTrack;
+                if (endedTrack) {
+                    this.queue.previousTrack = endedTrack;
+                    this.queue._addToHistory(endedTrack);
+                };
+
                 this.queue.currentTrack = null;
+                void this.save();
 
-                if (data.reason === "replaced") {
-                    this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Track replaced for player ${this.guildId}`)
-                    return this.manager.emit("trackEnd", this, data);
-                };
+                this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Track ended for player ${this.guildId} [${data.reason}]`)
+                this.manager.emit("trackEnd", this, endedTrack, data.reason);
 
                 if (["loadFailed", "cleanup"].includes(data.reason)) {
                     if (!this.queue.length || this.queue.length === 0) return this.manager.emit("queueEmpty", this);
 
-                    this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Track ended for player ${this.guildId}`)
-                    this.manager.emit("trackEnd", this, this.queue.previousTrack);
-
                     return this.play();
                 };
 
@@ -405,8 +748,6 @@ export class Player extends EventEmitter {
                         if (!this.queue.previousTrack) return this.manager.emit("queueEmpty", this);
 
                         this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Track looped for player ${this.guildId}`)
-                        this.manager.emit("trackEnd", this, this.queue.previousTrack);
-
                         this.queue.unshift(this.queue.previousTrack);
 
                         return this.play()
@@ -417,8 +758,6 @@ export class Player extends EventEmitter {
                         if (!this.queue.previousTrack) return this.manager.emit("queueEmpty", this);
                         
                         this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Queue looped for player ${this.guildId}`)
-                        this.manager.emit("trackEnd", this, this.queue.previousTrack);
-
                         this.queue.push(this.queue.previousTrack);
 
                         return this.play()
@@ -430,9 +769,6 @@ export class Player extends EventEmitter {
 
                         if (!this.queue.length || this.queue.length === 0) return this.manager.emit("queueEmpty", this);
 
-                        this.manager.emit("debug", `[HarmonyLink] [Player] [Connection] Track ended for player ${this.guildId}`);
-                        this.manager.emit("trackEnd", this, this.queue.previousTrack);
-
                         return this.play()
                     };
                 };
@@ -449,7 +785,7 @@ export class Player extends EventEmitter {
             };
 
             case "TrackExceptionEvent": {
-                this.manager.emit("trackError", this, this.queue.previousTrack, data);
+                this.manager.emit("trackError", this, this.queue.currentTrack, data);
 
                 await this.skip();
                 break;
@@ -1,12 +1,20 @@
 // Types
 import { Track } from "./Track";
+import { QueueSnapshot, TrackSnapshot } from "@t/player/snapshot";
 
 export class Queue extends Array<Track> {
     public currentTrack: Track | null = null;
     public previousTrack: Track | null = null;
+
+    /**
+     * The tracks that have been played, the most recent one being the last
+     */
+    public readonly history: Track[] = [];
+    public historySize: number;
     
-    public constructor() {
+    public constructor(historySize: number = 20) {
         super();
+        this.historySize = historySize;
     };
 
     /**
@@ -37,6 +45,14 @@ export class Queue extends Array<Track> {
         return this.previousTrack;
     }
 
+    /**
+     * Clears the history of played tracks.
+     * @returns {Track[]} An array containing all the cleared tracks.
+     */
+    public clearHistory(): Track[] {
+        return this.history.splice(0);
+    };
+
     /**
      * Adds a track to the queue.
      * @param {Track} track - The track to add to the queue.
@@ -90,6 +106,49 @@ export class Queue extends Array<Track> {
         return this.currentTrack;
     };
 
+    /**
+     * Adds a played track to the history and drops the oldest ones when the history is full.
+     * @param {Track} track - The track that has been played.
+     */
+    public _addToHistory(track: Track): void {
+        if (this.historySize <= 0) return;
+
+        this.history.push(track);
+        if (this.history.length > this.historySize) this.history.splice(0, this.history.length - this.historySize);
+    };
+
+    /**
+     * Converts the queue into a snapshot, which can be stored as JSON.
+     * @returns {QueueSnapshot} The snapshot of the queue.
+     */
+    public toJSON(): QueueSnapshot {
+        return {
+            current: this.currentTrack?.toJSON() ?? null,
+            previous: this.previousTrack?.toJSON() ?? null,
+            // Array.from, as map would create another Queue through the species of the Array
+            tracks: Array.from(this, track => track.toJSON()),
+            history: this.history.map(track => track.toJSON())
+        };
+    };
+
+    /**
+     * Replaces the tracks of the queue with the tracks of a snapshot.
+     * @param {QueueSnapshot} snapshot - The snapshot of the queue.
+     * @param {Function} [deserializeRequester] - Converts the stored requesters back.
+     * @returns {Queue} The restored queue.
+     */
+    public _restore(snapshot: QueueSnapshot, deserializeRequester: (data: unknown) => any = (data) => data): this {
+        const toTrack = (track: TrackSnapshot): Track => Track.fromJSON(track, deserializeRequester(track.requester));
+
+        this.currentTrack = snapshot.current ? toTrack(snapshot.current) : null;
+        this.previousTrack = snapshot.previous ? toTrack(snapshot.previous) : null;
+
+        this.splice(0, this.length, ...snapshot.tracks.map(toTrack));
+        this.history.splice(0, this.history.length, ...(this.historySize > 0 ? snapshot.history.map(toTrack).slice(-this.historySize) : []));
+
+        return this;
+    };
+
     public _cleanUp(): void {
         this.currentTrack = null;
         this.previousTrack = null;
@@ -2,6 +2,7 @@
 
 // Structures
 import { Track } from "./Track";
+import { Node } from "@/node/Node";
 
 // Types
 import { LavaLinkLoadTypes, LoadTrackResult } from "@t/node/rest";
@@ -13,7 +14,17 @@ export class Response {
     public loadType: LavaLinkLoadTypes;
     public playlistInfo: PlaylistInfo;
 
-    public constructor(response: LoadTrackResult, requester?: any) {
+    /**
+     * The node that answered the request
+     */
+    public node: Node | null;
+
+    /**
+     * The source (platform) that was used for resolving
+     */
+    public source: string | null;
+
+    public constructor(response: LoadTrackResult, requester?: any, node?: Node, source?: string) {
         const { loadType, data } = response;
         
         switch (loadType) {
@@ -48,6 +59,8 @@ export class Response {
         };
 
         this.loadType = loadType;
+        this.node = node ?? null;
+        this.source = source ?? null;
     };
 
     /**
@@ -3,6 +3,7 @@
 // Types
 import { HarmonyLink } from "@/HarmonyLink";
 import { TrackData, TrackDataInfo } from "@t/track";
+import { TrackSnapshot } from "@t/player/snapshot";
 
 export class Track {
     public track: string;
@@ -70,7 +71,33 @@ export class Track {
         return this;
     };
 
+    /**
+     * Converts the track into a snapshot, which can be stored as JSON.
+     * @returns {TrackSnapshot} The snapshot of the track
+     */
+    public toJSON(): TrackSnapshot {
+        const { requester, ...info } = this.info;
+
+        return {
+            encoded: this.track,
+            info,
+            pluginInfo: this.pluginInfo,
+            userData: this.userData,
+            requester
+        };
+    };
+
     private escapeRegExp(str: string): string {
         return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
     };
+
+    /**
+     * Creates a track from a snapshot.
+     * @param {TrackSnapshot} snapshot The snapshot of the track
+     * @param {any} [requester] The requester of the track, defaults to the requester of the snapshot
+     * @returns {Track} The track
+     */
+    public static fromJSON(snapshot: TrackSnapshot, requester: any = snapshot.requester): Track {
+        return new Track(snapshot, requester);
+    };
 }
\ No newline at end of file
@@ -3,9 +3,24 @@ import AbstractLibraryClass from "@/librarys/AbstractLibraryClass";
 import AbstractNodeDriver from "@/nodeDriver/AbstractNodeDriver";
 
 import NodeManager from "@/managers/NodeManager";
-import { NodeGroup } from "@t/node";
+import { NodeSelectionStrategy } from "@t/managers/nodeManager";
+import { LavalinkPlayerUpdatePacket, NodeGroup, NodeResumeSummary, NodeState, NodeType } from "@t/node";
+import { TrackEndReason, TrackExceptionEvent, TrackStuckEvent, WebSocketClosedEvent } from "@t/node/playerEvents";
+import { Track } from "@/player/Track";
+import { HarmonyLinkRestError } from "@/errors/HarmonyLinkRestError";
 import { Node } from "@/node/Node";
 import { Player } from "@/player/Player";
+import { FilterPreset } from "@t/player/filters";
+import { SearchCacheOptions } from "@t/utils/searchCache";
+import { SessionStore } from "@t/utils/sessionStore";
+import { PlayerStore, RequesterSerializer } from "@t/player/snapshot";
+import { NodeInterceptor } from "@t/node/interceptors";
+import { ConnectionPoolOptions, NodeTransportOptions } from "@t/node/transport";
+
+/**
+ * A node driver class. Every node creates its own instance of the driver of its type.
+ */
+export type NodeDriverConstructor = new () => AbstractNodeDriver;
 
 export interface HarmonyLinkConfiguration {
     /**
@@ -40,14 +55,25 @@ export interface HarmonyLinkConfiguration {
     resume?: boolean;
 
     /**
-     * Additional drivers to use for connecting to other nodes.
+     * Additional drivers to use for connecting to other nodes, keyed by the node type they are used for.
+     * A driver registered for a built-in `NodeType` replaces the built-in driver.
+     * 
+     * ```ts
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   additionalDriver: {
+     *     "mycustomnode": MyCustomDriver,
+     *   },
+     *   nodes: [{ name: "Custom", host: "localhost", type: "mycustomnode" }]
+     * }
+     * ```
      * 
      * @note If you are using a custom driver, you should extend `AbstractNodeDriver` and implement the methods.
      * @note If you want, you can go onto our github and create a pull request to add your driver to the main repository so that it is supported by default.
      * 
-     * @default []
+     * @default {}
      */
-    additionalDriver?: AbstractNodeDriver[];
+    additionalDriver?: Record<NodeType | string, NodeDriverConstructor>;
 
     /**
      * The timeout to use when resuming players
@@ -56,6 +82,67 @@ export interface HarmonyLinkConfiguration {
      */
     resumeTimeout?: number;
 
+    /**
+     * Where to store the session ids of the nodes, so the sessions can be resumed after the bot process restarted.
+     * Only used when `resume` is enabled. The players of a resumed session are rebuilt from the node.
+     * 
+     * ```ts
+     * import { FileSessionStore } from "HarmonyLink";
+     * 
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   resume: true,
+     *   sessionStore: new FileSessionStore("./sessions.json"),
+     * }
+     * ```
+     * 
+     * @default undefined
+     */
+    sessionStore?: SessionStore;
+
+    /**
+     * Where to save the snapshots of the players. The snapshots are saved whenever the state of a player changes
+     * and can be restored with `<HarmonyLink>.playerManager.restorePlayers()` once the nodes are ready.
+     * 
+     * ```ts
+     * import { FilePlayerStore } from "HarmonyLink";
+     * 
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   playerStore: new FilePlayerStore("./players.json"),
+     * }
+     * ```
+     * 
+     * @default undefined
+     */
+    playerStore?: PlayerStore;
+
+    /**
+     * Converts the requesters of the tracks for the player snapshots, as they have to survive JSON.
+     * 
+     * ```ts
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   requesterSerializer: {
+     *     serialize: (user: User) => user.id,
+     *     deserialize: (id) => client.users.cache.get(id as string),
+     *   },
+     * }
+     * ```
+     * 
+     * @default undefined
+     */
+    requesterSerializer?: RequesterSerializer;
+
+    /**
+     * Whether to move the players of a dead node to other healthy nodes.
+     * A node is considered dead when all reconnect attempts are used up, or when it closes without being resumable.
+     * Players are only destroyed when no other node is left to move them to.
+     * 
+     * @default false
+     */
+    failover?: boolean;
+
     /**
      * The amount of times to try to reconnect to the node
      * 
@@ -64,34 +151,53 @@ export interface HarmonyLinkConfiguration {
     reconnectTries?: number;
 
     /**
-     * The timeout for the reconnect
+     * The timeout for the first reconnect attempt
      * 
      * @default 5000
      */
     reconnectTimeout?: number;
 
     /**
-     * A custom resolver for the NodeResolver
+     * The multiplier of the timeout for every following reconnect attempt (exponential backoff)
+     * 
+     * @default 2
+     */
+    reconnectBackoffMultiplier?: number;
+
+    /**
+     * The maximum timeout between two reconnect attempts
+     * 
+     * @default 60000
+     */
+    reconnectMaxTimeout?: number;
+
+    /**
+     * The random variation of the reconnect timeout, from 0 (none) to 1 (up to 100%), so that many clients do not reconnect at the same time
+     * 
+     * @default 0.2
+     */
+    reconnectJitter?: number;
+
+    /**
+     * The strategy to use for picking a node when resolving tracks or creating players.
+     * The strategies use the stats that are sent by the nodes over the WebSocket, so no request is made.
+     * 
+     * @default NodeSelectionStrategy.Penalties
+     */
+    nodeSelectionStrategy?: NodeSelectionStrategy;
+
+    /**
+     * A custom resolver for the NodeResolver. When it returns nothing, the `nodeSelectionStrategy` is used.
      * 
      * @default
      * ```ts
-     *  const nodes = this.allNodes;
+     *  const onlineNodes = this.allNodes.filter(node => node.isReady);
      *
-     *  const onlineNodes = nodes.filter(node => node.isConnected);
-     *
-     *  if (!onlineNodes || onlineNodes.length === 0) {
-     *      throw new Error("[HarmonyLink] [NodeManager] No nodes are online.");
+     *  if (onlineNodes.length === 0) {
+     *      throw new Error("[HarmonyLink] [NodeManager] No nodes are ready.");
      *  };
      *
-     *  const promises = onlineNodes.map(async node => {
-     *      const stats = await node.getStats();
-     *      return { node, stats };
-     *  });
-     *
-     *  const results = await Promise.all(promises);
-     *  const sorted = results.sort((a, b) => a.stats.players - b.stats.players);
-     *
-     *  return sorted[0].node;
+     *  return onlineNodes.sort((a, b) => a.penalties - b.penalties)[0];
      * ```
      */
     nodeResolver?: (nodes: NodeManager) => Promise<Node | void>;
@@ -144,6 +250,162 @@ export interface HarmonyLinkConfiguration {
      */
     defaultVolume?: number
 
+    /**
+     * Custom filter presets to register in addition to the built-in ones (nightcore, vaporwave, bassboost, 8d, soft and karaoke)
+     * 
+     * ```ts
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   filterPresets: {
+     *     chipmunk: { timescale: { speed: 1.05, pitch: 1.35, rate: 1.25 } }
+     *   }
+     * }
+     * ```
+     * 
+     * @default {}
+     */
+    filterPresets?: Record<string, FilterPreset>;
+
+    /**
+     * The maximum amount of played tracks to keep in the history of each queue
+     * 
+     * @default 20
+     */
+    historySize?: number;
+
+    /**
+     * Retries resolving on other nodes and sources when the result is an error, empty or the request fails.
+     * The other online nodes are tried first, then the same is done for every fallback source in order.
+     * 
+     * ```ts
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   resolveFallback: {
+     *     nodes: true,
+     *     sources: ["ytmsearch", "scsearch"]
+     *   }
+     * }
+     * ```
+     * 
+     * @default undefined
+     */
+    resolveFallback?: {
+        /**
+         * Whether to retry on the other online nodes
+         * 
+         * @default true
+         */
+        nodes?: boolean;
+
+        /**
+         * The sources (platforms) to retry with when no node returned results with the requested source
+         * 
+         * @default []
+         */
+        sources?: string[];
+    };
+
+    /**
+     * Caches the results of track loading, so the same queries (e.g. from autocompletes) do not hit the nodes every time.
+     * Error and empty results are never cached. The cache can be inspected and cleared with `<HarmonyLink>.searchCache`.
+     * 
+     * @default undefined
+     */
+    searchCache?: SearchCacheOptions;
+
+    /**
+     * The timeout of REST requests to the nodes in milliseconds. Can be overridden per node and per request.
+     * 
+     * @default 15000
+     */
+    requestTimeout?: number;
+
+    /**
+     * The amount of times a failed REST request is retried. Only GET requests are retried on timeouts, server errors and lost connections,
+     * while every request is retried when the node could not be reached and on 429 / 503, honouring the `Retry-After` header.
+     * Every retry is emitted as `requestRetry` event.
+     * 
+     * @default 2
+     */
+    requestRetries?: number;
+
+    /**
+     * The delay before the first retry of a REST request in milliseconds, doubled for every following retry
+     * 
+     * @default 500
+     */
+    requestRetryDelay?: number;
+
+    /**
+     * Whether to ask the nodes for the stack traces of failed requests (`trace=true`).
+     * The traces are available on `<HarmonyLinkRestError>.body.trace`.
+     * 
+     * @default false
+     */
+    trace?: boolean;
+
+    /**
+     * Interceptors for the REST requests and WebSocket packets of every node, e.g. for adding tracing headers or logging slow requests.
+     * Interceptors of a node (`NodeGroup.interceptors`) run after these.
+     * 
+     * ```ts
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   interceptors: [{
+     *     beforeRequest: ({ options }) => {
+     *       options.headers = { ...options.headers, "X-Request-Id": randomUUID() };
+     *     },
+     *     afterResponse: ({ node, options, duration }) => {
+     *       if (duration > 1000) console.warn(`${options.method} ${options.path} on ${node.options.name} took ${duration}ms`);
+     *     },
+     *   }],
+     * }
+     * ```
+     * 
+     * @default []
+     */
+    interceptors?: NodeInterceptor[];
+
+    /**
+     * The keep-alive connection pool used for the REST requests. Every node has its own pool.
+     * 
+     * ```ts
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   connectionPool: {
+     *     maxSockets: 128,
+     *     keepAliveTimeout: 10000,
+     *   },
+     * }
+     * ```
+     * 
+     * @default { maxSockets: 64, maxFreeSockets: 16, keepAliveTimeout: 4000 }
+     */
+    connectionPool?: ConnectionPoolOptions;
+
+    /**
+     * How to connect to the nodes, e.g. for routing the traffic through a proxy or for pointing tests at a fake node.
+     * Can be overridden per node with `NodeGroup.transport`.
+     * 
+     * ```ts
+     * import { ProxyAgent } from "undici";
+     * 
+     * const dispatcher = new ProxyAgent("http://proxy.local:8080");
+     * 
+     * const config: HarmonyLinkConfiguration = {
+     *   ...YourConfiguration
+     *   transport: {
+     *     fetch: (url, init) => fetch(url, { ...init, dispatcher }),
+     *     headers: { "X-Bot-Shard": "0" },
+     *     tls: { ca: readFileSync("./node-ca.pem") },
+     *   },
+     * }
+     * ```
+     * 
+     * @default {}
+     */
+    transport?: NodeTransportOptions;
+
     /**
      * The default source (platform) to use for resolving tracks
      * 
@@ -157,4 +419,189 @@ export interface HarmonyLinkConfiguration {
      * @default 10000
      */
     voiceConnectionTimeout?: number;
-}
\ No newline at end of file
+}
+
+export interface HarmonyLinkDestroyOptions {
+    /**
+     * Whether to destroy the players on the nodes.
+     * When false, the players only leave their voice channels and are removed locally.
+     * 
+     * @default true
+     */
+    destroyPlayers?: boolean;
+}
+
+export interface HarmonyLinkEvents {
+    /**
+     * Dispatched for debugging information
+     * @param {string} message The debug message
+     * @param {unknown[]} args Additional data, e.g. the caught error
+     * @returns {void} void
+     */
+    debug: (message: string, ...args: unknown[]) => void;
+
+    /**
+     * Dispatched when a track starts playing
+     * @param {Player} player The player
+     * @param {Track | null} track The track that started
+     * @returns {void} void
+     */
+    trackStart: (player: Player, track: Track | null) => void;
+
+    /**
+     * Dispatched when a track ends, for every reason including replaced tracks
+     * @param {Player} player The player
+     * @param {Track | null} track The track that ended
+     * @param {TrackEndReason} reason Why the track ended
+     * @returns {void} void
+     */
+    trackEnd: (player: Player, track: Track | null, reason: TrackEndReason) => void;
+
+    /**
+     * Dispatched when a track got stuck or threw an exception. The player skips the track afterwards.
+     * @param {Player} player The player
+     * @param {Track | null} track The track that failed
+     * @param {TrackExceptionEvent | TrackStuckEvent} data The event of the node
+     * @returns {void} void
+     */
+    trackError: (player: Player, track: Track | null, data: TrackExceptionEvent | TrackStuckEvent) => void;
+
+    /**
+     * Dispatched when the queue has no tracks left to play
+     * @param {Player} player The player
+     * @returns {void} void
+     */
+    queueEmpty: (player: Player) => void;
+
+    /**
+     * Dispatched when the voice WebSocket of the node to Discord closed
+     * @param {Player} player The player
+     * @param {Track | null} track The track that was playing
+     * @param {WebSocketClosedEvent} data The event of the node
+     * @returns {void} void
+     */
+    socketClose: (player: Player, track: Track | null, data: WebSocketClosedEvent) => void;
+
+    /**
+     * Dispatched when a player is created
+     * @param {Player} player The player
+     * @returns {void} void
+     */
+    playerCreate: (player: Player) => void;
+
+    /**
+     * Dispatched when a player is destroyed
+     * @param {string} guildId The guild ID of the player
+     * @param {Player} player The player
+     * @returns {void} void
+     */
+    playerDestroy: (guildId: string, player: Player) => void;
+
+    /**
+     * Dispatched when the node sends the state of a player
+     * @param {Player} player The player
+     * @param {LavalinkPlayerUpdatePacket} packet The packet of the node
+     * @returns {void} void
+     */
+    playerUpdate: (player: Player, packet: LavalinkPlayerUpdatePacket) => void;
+
+    /**
+     * Dispatched when a player seeked in the current track
+     * @param {Player} player The player
+     * @param {number} position The new position in milliseconds
+     * @returns {void} void
+     */
+    playerSeek: (player: Player, position: number) => void;
+
+    /**
+     * Dispatched when a player has been moved to another node
+     * @param {Player} player The player
+     * @param {Node} oldNode The node the player was on
+     * @param {Node} newNode The node the player is on now
+     * @returns {void} void
+     */
+    playerMove: (player: Player, oldNode: Node, newNode: Node) => void;
+
+    /**
+     * Dispatched when a player has been moved away from a dead node
+     * @param {Player} player The player
+     * @param {Node} deadNode The dead node
+     * @param {Node} newNode The node the player is on now
+     * @returns {void} void
+     */
+    playerFailover: (player: Player, deadNode: Node, newNode: Node) => void;
+
+    /**
+     * Dispatched when the WebSocket connection to a node is opened
+     * @param {Node} node The node
+     * @returns {void} void
+     */
+    nodeConnect: (node: Node) => void;
+
+    /**
+     * Dispatched when the WebSocket connection to a node is closed
+     * @param {Node} node The node
+     * @param {number} code The close code of the WebSocket
+     * @returns {void} void
+     */
+    nodeDisconnect: (node: Node, code: number) => void;
+
+    /**
+     * Dispatched when a reconnect attempt to a node starts
+     * @param {Node} node The node
+     * @returns {void} void
+     */
+    nodeReconnect: (node: Node) => void;
+
+    /**
+     * Dispatched when a reconnect attempt to a node failed
+     * @param {Node} node The node
+     * @param {number} attempt The number of the failed attempt
+     * @param {Error} error Why the attempt failed
+     * @returns {void} void
+     */
+    nodeReconnectFailed: (node: Node, attempt: number, error: Error) => void;
+
+    /**
+     * Dispatched when every reconnect attempt to a node failed
+     * @param {Node} node The node
+     * @param {Error} error The error
+     * @returns {void} void
+     */
+    nodeDead: (node: Node, error: Error) => void;
+
+    /**
+     * Dispatched when a node resumed its session and the players have been reconciled
+     * @param {Node} node The node
+     * @param {NodeResumeSummary} summary What has been changed
+     * @returns {void} void
+     */
+    nodeResumed: (node: Node, summary: NodeResumeSummary) => void;
+
+    /**
+     * Dispatched when the state of a node changed
+     * @param {Node} node The node
+     * @param {NodeState} oldState The previous state
+     * @param {NodeState} newState The new state
+     * @returns {void} void
+     */
+    nodeStateChange: (node: Node, oldState: NodeState, newState: NodeState) => void;
+
+    /**
+     * Dispatched when the WebSocket connection to a node has an error
+     * @param {Node} node The node
+     * @param {Error} error The error
+     * @returns {void} void
+     */
+    nodeError: (node: Node, error: Error) => void;
+
+    /**
+     * Dispatched when a failed REST request is retried
+     * @param {Node} node The node
+     * @param {HarmonyLinkRestError} error Why the request failed
+     * @param {number} attempt The number of the retry
+     * @param {number} delay The delay before the retry in milliseconds
+     * @returns {void} void
+     */
+    requestRetry: (node: Node, error: HarmonyLinkRestError, attempt: number, delay: number) => void;
+};
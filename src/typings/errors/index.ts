@@ -0,0 +1,39 @@
+import { ErrorResponses } from "@t/node/rest";
+import { HarmonyLinkRequesterOptions } from "@t/node";
+
+export interface HarmonyLinkRestErrorOptions {
+    /**
+     * The name of the node the request was sent to
+     */
+    node: string;
+
+    /**
+     * The HTTP method of the request
+     */
+    method: HarmonyLinkRequesterOptions["method"];
+
+    /**
+     * The path of the request
+     */
+    path: string;
+
+    /**
+     * The HTTP status code of the response, or null if no response arrived
+     */
+    status?: number | null;
+
+    /**
+     * The error body of the response, as sent by Lavalink
+     */
+    body?: ErrorResponses | null;
+
+    /**
+     * How long to wait before retrying in milliseconds, as requested by the `Retry-After` header
+     */
+    retryAfter?: number | null;
+
+    /**
+     * The error that caused this error
+     */
+    cause?: unknown;
+};
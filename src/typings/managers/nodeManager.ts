@@ -0,0 +1,26 @@
+export enum NodeSelectionStrategy {
+    /**
+     * Picks the node with the least amount of playing players
+     */
+    LeastPlayers = "leastPlayers",
+
+    /**
+     * Picks the node with the least CPU load of the Lavalink process
+     */
+    LeastLoad = "leastLoad",
+
+    /**
+     * Picks the node with the lowest penalty score, combining playing players, CPU load and frame deficits
+     */
+    Penalties = "penalties",
+
+    /**
+     * Picks the online nodes one after another
+     */
+    RoundRobin = "roundRobin",
+
+    /**
+     * Picks a random online node
+     */
+    Random = "random",
+};
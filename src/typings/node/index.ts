@@ -1,12 +1,14 @@
 import { EventData } from "./playerEvents";
+import { NodeInterceptor } from "./interceptors";
+import { NodeTransportOptions } from "./transport";
 
 export interface NodeEvents {
     /**
-     * Dispatched when the node gives via the WebSocket a message to the client
-     * @param data The data that the node sends
+     * Dispatched when the node gives via the WebSocket a message to the client, after the packet interceptors ran
+     * @param {LavalinkPackets} packet The packet that the node sends
      * @returns {void} void
      */
-    lavalinkEvent: (data: string, interceptor?: (data: any) => LavalinkPackets) => void;
+    lavalinkEvent: (packet: LavalinkPackets) => void;
 
     /**
      * Dispatched when the WebSocket connection is opened
@@ -35,6 +37,22 @@ export interface HarmonyLinkRequesterOptions extends RequestInit {
     data?: any;
     path: string;
     method: "DELETE" | "GET" | "PATCH" | "POST" | "PUT";
+
+    /**
+     * The timeout of this request in milliseconds, defaults to the `requestTimeout` of the node
+     */
+    timeout?: number;
+
+    /**
+     * The amount of times this request is retried, defaults to the `requestRetries` of the node
+     */
+    retries?: number;
+
+    /**
+     * Whether the request can be sent again without applying it twice, so it is also retried on timeouts, server errors and lost connections.
+     * Defaults to true for GET requests
+     */
+    idempotent?: boolean;
     // rawReqData?: UpdatePlayerInfo;
 };
 
@@ -121,12 +139,76 @@ export interface NodeStats {
     };
 };
 
+export enum NodeState {
+    /**
+     * The node has been created but never connected
+     */
+    IDLE = "IDLE",
+
+    /**
+     * The WebSocket connection is being opened
+     */
+    CONNECTING = "CONNECTING",
+
+    /**
+     * The WebSocket connection is open, but the node did not send the ready packet yet
+     */
+    CONNECTED = "CONNECTED",
+
+    /**
+     * The node has sent the ready packet and can be used
+     */
+    READY = "READY",
+
+    /**
+     * The node has resumed a previous session which is being restored
+     */
+    RESUMING = "RESUMING",
+
+    /**
+     * A reconnect attempt is scheduled
+     */
+    RECONNECTING = "RECONNECTING",
+
+    /**
+     * The WebSocket connection is closed
+     */
+    DISCONNECTED = "DISCONNECTED",
+
+    /**
+     * The node has been removed and can not be used anymore
+     */
+    DESTROYED = "DESTROYED",
+};
+
 export enum NodeType {
     LavaLinkV4 = "lavalinkv4",
     NodeLink = "nodelink",
     FrequenC = "frequenc"
 };
 
+export interface NodeResumeSummary {
+    /**
+     * The guild ids of the local players that have been updated with the state of the node
+     */
+    updated: string[];
+
+    /**
+     * The guild ids of the players that have been rebuilt locally from the node
+     */
+    restored: string[];
+
+    /**
+     * The guild ids of the players on the node that have been destroyed, as they had no local player and no voice state
+     */
+    destroyed: string[];
+
+    /**
+     * The guild ids of the local players that the node does not know anymore
+     */
+    missing: string[];
+};
+
 export interface NodeInfo {
     /**
      * The version of this Lavalink server
@@ -305,11 +387,48 @@ export interface NodeGroup {
     secure?: boolean;
 
     /**
-     * The type of the node
+     * The type of the node. Can also be the type of a custom driver registered with `additionalDriver`.
      * 
      * @default NodeType.LavaLinkV4
      */
-    type?: NodeType;
+    type?: NodeType | string;
+
+    /**
+     * The Discord voice regions this node serves (e.g. `["us", "eu-central"]`).
+     * A region matches every voice region starting with it, so `"us"` matches `"us-east"` and `"us-west"`.
+     * Players are moved to a node serving their voice region once the voice server is known.
+     * 
+     * @default []
+     */
+    regions?: string[];
+
+    /**
+     * The timeout of REST requests to this node in milliseconds. Overrides the global `requestTimeout`.
+     * 
+     * @default 15000
+     */
+    requestTimeout?: number;
+
+    /**
+     * The amount of times a failed REST request to this node is retried. Overrides the global `requestRetries`.
+     * 
+     * @default 2
+     */
+    requestRetries?: number;
+
+    /**
+     * The interceptors of the requests and WebSocket packets of this node. They run after the global `interceptors`.
+     * 
+     * @default []
+     */
+    interceptors?: NodeInterceptor[];
+
+    /**
+     * How to connect to this node. Overrides the global `transport`, while the headers and TLS options are merged with the global ones.
+     * 
+     * @default {}
+     */
+    transport?: NodeTransportOptions;
 };
 
 export interface NodeOption {
@@ -329,14 +448,44 @@ export interface NodeOption {
     currentAttempts: number;
 
     /**
-     * The timeout for the reconnect
+     * The timeout for the first reconnect attempt
      */
     reconnectTimeout: number;
 
+    /**
+     * The multiplier of the timeout for every following reconnect attempt
+     */
+    reconnectBackoffMultiplier: number;
+
+    /**
+     * The maximum timeout between reconnect attempts
+     */
+    reconnectMaxTimeout: number;
+
+    /**
+     * The random variation of the reconnect timeout, from 0 (none) to 1 (up to 100%)
+     */
+    reconnectJitter: number;
+
     /**
      * The timeout for resuming the connection in seconds
      */
     resumeTimeout: number;
+
+    /**
+     * The timeout of REST requests in milliseconds
+     */
+    requestTimeout: number;
+
+    /**
+     * The amount of times a failed REST request is retried
+     */
+    requestRetries: number;
+
+    /**
+     * The delay before the first retry of a REST request in milliseconds, doubled for every following retry
+     */
+    requestRetryDelay: number;
 }
 
 export type NodeOptions = NodeGroup & NodeOption;
@@ -0,0 +1,97 @@
+import { Node } from "@/node/Node";
+import { HarmonyLinkRestError } from "@/errors/HarmonyLinkRestError";
+import { HarmonyLinkRequesterOptions, LavalinkPackets } from "@t/node";
+
+export interface NodeRequestContext {
+    /**
+     * The node the request is sent to
+     */
+    node: Node;
+
+    /**
+     * The options of the request. Changes made by `beforeRequest` are used for building the request.
+     */
+    options: HarmonyLinkRequesterOptions;
+};
+
+export interface NodeResponseContext extends NodeRequestContext {
+    /**
+     * The URL the request has been sent to
+     */
+    url: URL;
+
+    /**
+     * The HTTP status code of the response
+     */
+    status: number;
+
+    /**
+     * The time in milliseconds between sending the request and receiving the response, including the retries
+     */
+    duration: number;
+
+    /**
+     * The amount of attempts it took to get the response
+     */
+    attempts: number;
+
+    /**
+     * The parsed body of the response, or undefined if the response has no body
+     */
+    body: unknown;
+};
+
+export interface NodeErrorContext extends NodeRequestContext {
+    /**
+     * The URL the request has been sent to
+     */
+    url: URL;
+
+    /**
+     * Why the request failed
+     */
+    error: HarmonyLinkRestError;
+
+    /**
+     * The time in milliseconds between sending the request and failing, including the retries
+     */
+    duration: number;
+
+    /**
+     * The amount of attempts that have been made
+     */
+    attempts: number;
+};
+
+export interface NodeInterceptor {
+    /**
+     * Called before a request is built. The options can be changed, e.g. for adding headers or rewriting the payload.
+     * Throwing an error cancels the request, which then rejects with a `HarmonyLinkRestError` whose `cause` is the thrown error.
+     * @param {NodeRequestContext} context The request
+     * @returns {Promise<void> | void} void
+     */
+    beforeRequest?: (context: NodeRequestContext) => Promise<void> | void;
+
+    /**
+     * Called after a successful response has been received
+     * @param {NodeResponseContext} context The response
+     * @returns {Promise<void> | void} void
+     */
+    afterResponse?: (context: NodeResponseContext) => Promise<void> | void;
+
+    /**
+     * Called when a request failed after all retries
+     * @param {NodeErrorContext} context The error
+     * @returns {Promise<void> | void} void
+     */
+    onError?: (context: NodeErrorContext) => Promise<void> | void;
+
+    /**
+     * Called for every WebSocket packet of the node before it is handled.
+     * This runs synchronously, so the packets are always handled in the order the node sent them.
+     * @param {LavalinkPackets} packet The packet
+     * @param {Node} node The node that sent the packet
+     * @returns {LavalinkPackets | null | undefined} A packet to replace it, null to drop it or undefined to keep it
+     */
+    onPacket?: (packet: LavalinkPackets, node: Node) => LavalinkPackets | null | undefined;
+};
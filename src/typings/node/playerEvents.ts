@@ -1,3 +1,5 @@
+import { TrackData } from "@t/track";
+
 export type PlayerEventType = 'TrackEndEvent' | 'TrackExceptionEvent' | 'TrackStartEvent' | 'TrackStuckEvent' | 'WebSocketClosedEvent';
 export type TrackEndReason = 'cleanup' | 'finished' | 'loadFailed' | 'replaced' | 'stopped';
 
@@ -21,7 +23,7 @@ export interface PlayerEvent {
  */
 export interface TrackStartEvent extends PlayerEvent {
     type: 'TrackStartEvent';
-    track: any;
+    track: TrackData;
 }
 
 /**
@@ -29,7 +31,7 @@ export interface TrackStartEvent extends PlayerEvent {
  */
 export interface TrackEndEvent extends PlayerEvent {
   type: 'TrackEndEvent';
-  track: any;
+  track: TrackData;
   reason: TrackEndReason;
 }
 
@@ -38,7 +40,7 @@ export interface TrackEndEvent extends PlayerEvent {
 */
 export interface TrackStuckEvent extends PlayerEvent {
   type: 'TrackStuckEvent';
-  track: any;
+  track: TrackData;
   thresholdMs: number;
 }
 
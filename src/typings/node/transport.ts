@@ -0,0 +1,77 @@
+import { ConnectionOptions } from "tls";
+import { ClientOptions, WebSocket } from "ws";
+
+/**
+ * A fetch compatible function used for the REST requests to a node
+ */
+export type NodeFetch = (url: URL, init: RequestInit) => Promise<Response>;
+
+/**
+ * A function that opens the WebSocket connection to a node
+ */
+export type WebSocketFactory = (url: string, options: ClientOptions) => WebSocket;
+
+export interface ConnectionPoolOptions {
+    /**
+     * The maximum amount of open connections per node
+     *
+     * @default 64
+     */
+    maxSockets?: number;
+
+    /**
+     * The maximum amount of idle connections that are kept open per node
+     *
+     * @default 16
+     */
+    maxFreeSockets?: number;
+
+    /**
+     * The time in milliseconds after which an idle connection is closed.
+     * Keep this below the idle timeout of the node, as reusing a connection the node already closed makes the request fail.
+     *
+     * @default 4000
+     */
+    keepAliveTimeout?: number;
+};
+
+/**
+ * A WebSocket class that is compatible with the WebSocket of `ws`
+ */
+export type WebSocketConstructor = new (url: string, options: ClientOptions) => WebSocket;
+
+/**
+ * The TLS options used for the connections to a node
+ */
+export type NodeTLSOptions = Pick<ConnectionOptions, "ca" | "cert" | "key" | "passphrase" | "pfx" | "rejectUnauthorized" | "servername">;
+
+export interface NodeTransportOptions {
+    /**
+     * The fetch used for the REST requests instead of the built-in keep-alive connection pool.
+     * The `tls` options and the `connectionPool` are not used by a custom fetch.
+     *
+     * @default undefined
+     */
+    fetch?: NodeFetch;
+
+    /**
+     * The WebSocket class used for connecting to the node instead of the WebSocket of `ws`
+     *
+     * @default undefined
+     */
+    webSocket?: WebSocketConstructor;
+
+    /**
+     * Extra headers sent with every REST request and with the WebSocket connection
+     *
+     * @default {}
+     */
+    headers?: Record<string, string>;
+
+    /**
+     * The TLS options of secure nodes, e.g. for self signed certificates
+     *
+     * @default {}
+     */
+    tls?: NodeTLSOptions;
+};
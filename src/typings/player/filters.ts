@@ -149,4 +149,9 @@ export interface FiltersOptions {
     channelMix: channelMixOptions;
     lowPass: lowPassOptions;
     timescale: timescaleOptions;
-};
\ No newline at end of file
+};
+
+/**
+ * A named set of filters that can be applied on a player with `<Player>.applyPreset()`
+ */
+export type FilterPreset = Partial<FiltersOptions>;
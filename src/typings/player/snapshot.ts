@@ -0,0 +1,82 @@
+import { PlayerLoop } from "@t/player";
+import { FiltersOptions } from "@t/player/filters";
+import { TrackData } from "@t/track";
+
+export interface TrackSnapshot extends TrackData {
+    /**
+     * The requester of the track, as returned by `RequesterSerializer.serialize`
+     */
+    requester?: unknown;
+};
+
+export interface QueueSnapshot {
+    /**
+     * The track that is currently playing
+     */
+    current: TrackSnapshot | null;
+
+    /**
+     * The track that has been played before the current one
+     */
+    previous: TrackSnapshot | null;
+
+    /**
+     * The upcoming tracks
+     */
+    tracks: TrackSnapshot[];
+
+    /**
+     * The tracks that have been played, the most recent one being the last
+     */
+    history: TrackSnapshot[];
+};
+
+export interface PlayerSnapshot {
+    guildId: string;
+    voiceId: string;
+    textId: string;
+    shardId: string;
+    mute: boolean;
+    deaf: boolean;
+
+    /**
+     * The name of the node the player was on
+     */
+    node: string;
+
+    loop: PlayerLoop | "NONE" | "QUEUE" | "TRACK";
+    isAutoplay: boolean;
+    isPaused: boolean;
+
+    /**
+     * The position of the current track in milliseconds
+     */
+    position: number;
+    volume: number;
+    filters: Partial<FiltersOptions>;
+    queue: QueueSnapshot;
+
+    /**
+     * Unix timestamp in milliseconds when the snapshot was taken
+     */
+    savedAt: number;
+};
+
+/**
+ * Converts the requesters of the tracks, as they can be anything (e.g. a discord.js User) and must survive JSON.
+ */
+export interface RequesterSerializer {
+    serialize: (requester: any) => unknown;
+    deserialize: (data: unknown) => any;
+};
+
+/**
+ * Stores the snapshots of the players, so queues survive restarts of the bot process.
+ * Every method may return a Promise, so databases can be used as well.
+ */
+export interface PlayerStore {
+    get: (guildId: string) => PlayerSnapshot | Promise<PlayerSnapshot | null> | null;
+    getAll: () => PlayerSnapshot[] | Promise<PlayerSnapshot[]>;
+    set: (guildId: string, snapshot: PlayerSnapshot) => Promise<void> | void;
+    delete: (guildId: string) => Promise<void> | void;
+};
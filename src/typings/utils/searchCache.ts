@@ -0,0 +1,29 @@
+import { LoadTrackResult } from "@t/node/rest";
+
+export interface SearchCacheOptions {
+    /**
+     * How long a result stays cached in milliseconds
+     * 
+     * @default 300000
+     */
+    ttl?: number;
+
+    /**
+     * The maximum amount of cached results. The least recently used results are evicted first.
+     * 
+     * @default 500
+     */
+    maxEntries?: number;
+};
+
+export interface SearchCacheEntry {
+    /**
+     * The cached result
+     */
+    result: LoadTrackResult;
+
+    /**
+     * Unix timestamp in milliseconds when the result expires
+     */
+    expiresAt: number;
+};
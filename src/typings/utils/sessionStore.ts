@@ -0,0 +1,25 @@
+/**
+ * Stores the Lavalink session ids of the nodes, so sessions can be resumed after the bot process restarted.
+ * Every method may return a Promise, so databases can be used as well.
+ */
+export interface SessionStore {
+    /**
+     * Gets the stored session id of a node
+     * @param {string} nodeName The name of the node
+     * @returns {string | null} The session id, or null if none is stored
+     */
+    get: (nodeName: string) => Promise<string | null> | string | null;
+
+    /**
+     * Stores the session id of a node
+     * @param {string} nodeName The name of the node
+     * @param {string} sessionId The session id
+     */
+    set: (nodeName: string, sessionId: string) => Promise<void> | void;
+
+    /**
+     * Removes the stored session id of a node
+     * @param {string} nodeName The name of the node
+     */
+    delete: (nodeName: string) => Promise<void> | void;
+};
@@ -0,0 +1,61 @@
+import { readFile, writeFile } from "fs/promises";
+import { setTimeout as sleep } from "timers/promises";
+
+/**
+ * A JSON file holding an object, shared by the file stores.
+ * Writes are serialized and coalesced, so changes in quick succession are written once and never at the same time.
+ */
+export class JsonFile<T> {
+    public readonly path: string;
+
+    /**
+     * The time in milliseconds a write waits for more changes before the file is written
+     */
+    public readonly writeDelay: number;
+
+    protected data: Promise<Record<string, T>> | null = null;
+    protected writing: Promise<void> = Promise.resolve();
+    protected queuedWrite: Promise<void> | null = null;
+
+    /**
+     * @param {string} path The path of the JSON file. It is created on the first write.
+     * @param {number} [writeDelay=0] The time in milliseconds a write waits for more changes
+     */
+    public constructor(path: string, writeDelay: number = 0) {
+        this.path = path;
+        this.writeDelay = writeDelay;
+    };
+
+    /**
+     * Reads the file once. A missing or broken file is read as an empty object.
+     * @returns {Promise<Record<string, T>>} The object, which is changed in place before calling `write()`
+     */
+    public async read(): Promise<Record<string, T>> {
+        this.data ??= readFile(this.path, "utf-8")
+            .then(content => JSON.parse(content) as Record<string, T>)
+            .catch(() => ({}));
+
+        return this.data;
+    };
+
+    /**
+     * Writes the object to the file. Joins the write that is still waiting, if there is one.
+     * @returns {Promise<void>} Resolves when the current state of the object has been written
+     */
+    public async write(): Promise<void> {
+        if (this.queuedWrite) return this.queuedWrite;
+
+        const write = this.writing.catch(() => undefined).then(async () => {
+            if (this.writeDelay > 0) await sleep(this.writeDelay);
+
+            // Changes made from now on need another write
+            this.queuedWrite = null;
+            await writeFile(this.path, JSON.stringify(await this.read()), "utf-8");
+        });
+
+        this.queuedWrite = write;
+        this.writing = write;
+
+        return write;
+    };
+};
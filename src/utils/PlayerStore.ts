@@ -0,0 +1,78 @@
+import { JsonFile } from "./JsonFile";
+
+// Types
+import { PlayerSnapshot, PlayerStore } from "@t/player/snapshot";
+
+/**
+ * Keeps the player snapshots in memory. This only survives reconnects, not restarts of the bot process.
+ */
+export class MemoryPlayerStore implements PlayerStore {
+    protected readonly snapshots = new Map<string, PlayerSnapshot>();
+
+    public get(guildId: string): PlayerSnapshot | null {
+        return this.snapshots.get(guildId) ?? null;
+    };
+
+    public getAll(): PlayerSnapshot[] {
+        return [...this.snapshots.values()];
+    };
+
+    public set(guildId: string, snapshot: PlayerSnapshot): void {
+        this.snapshots.set(guildId, snapshot);
+    };
+
+    public delete(guildId: string): void {
+        this.snapshots.delete(guildId);
+    };
+};
+
+/**
+ * Keeps the player snapshots in a JSON file, so queues survive restarts of the bot process.
+ * Saves in quick succession are coalesced, so the file is not written for every change of every player.
+ */
+export class FilePlayerStore implements PlayerStore {
+    protected readonly file: JsonFile<PlayerSnapshot>;
+
+    /**
+     * @param {string} path The path of the JSON file. It is created on the first write.
+     * @param {number} [writeDelay=1000] The time in milliseconds a save waits for more changes before the file is written
+     */
+    public constructor(path: string, writeDelay: number = 1000) {
+        this.file = new JsonFile(path, writeDelay);
+    };
+
+    /**
+     * The path of the JSON file
+     * @type {string}
+     */
+    public get path(): string {
+        return this.file.path;
+    };
+
+    public async get(guildId: string): Promise<PlayerSnapshot | null> {
+        const snapshots = await this.file.read();
+
+        return snapshots[guildId] ?? null;
+    };
+
+    public async getAll(): Promise<PlayerSnapshot[]> {
+        return Object.values(await this.file.read());
+    };
+
+    public async set(guildId: string, snapshot: PlayerSnapshot): Promise<void> {
+        const snapshots = await this.file.read();
+        snapshots[guildId] = snapshot;
+
+        await this.file.write();
+    };
+
+    public async delete(guildId: string): Promise<void> {
+        const snapshots = await this.file.read();
+        if (!(guildId in snapshots)) return;
+
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete snapshots[guildId];
+
+        await this.file.write();
+    };
+};
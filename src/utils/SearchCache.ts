@@ -0,0 +1,124 @@
+// Types
+import { LoadTrackResult } from "@t/node/rest";
+import { SearchCacheEntry, SearchCacheOptions } from "@t/utils/searchCache";
+
+export class SearchCache {
+    public readonly ttl: number;
+    public readonly maxEntries: number;
+
+    /**
+     * The amount of lookups that were answered from the cache
+     */
+    public hits: number = 0;
+
+    /**
+     * The amount of lookups that were not in the cache
+     */
+    public misses: number = 0;
+
+    // The Map keeps the insertion order, so the first entry is always the least recently used one.
+    protected readonly entries = new Map<string, SearchCacheEntry>();
+
+    public constructor(options: SearchCacheOptions) {
+        this.ttl = options.ttl ?? 300_000;
+        this.maxEntries = options.maxEntries ?? 500;
+    };
+
+    /**
+     * Returns the number of cached results.
+     * @type {number}
+     */
+    public get size(): number {
+        return this.entries.size;
+    };
+
+    /**
+     * Gets a cached result. Every call returns a copy, so tracks are never shared between responses.
+     * @param {string} identifier The query or URL
+     * @param {string} source The source (platform) used for searching
+     * @returns {LoadTrackResult | null} The cached result, or null if it is not cached or expired
+     */
+    public get(identifier: string, source: string): LoadTrackResult | null {
+        const key = SearchCache.key(identifier, source);
+        const entry = this.entries.get(key);
+
+        if (!entry || entry.expiresAt <= Date.now()) {
+            if (entry) this.entries.delete(key);
+            this.misses++;
+
+            return null;
+        };
+
+        // Marking the entry as the most recently used one
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+
+        return structuredClone(entry.result);
+    };
+
+    /**
+     * Caches a result. Error and empty results are not cached, as another node or source may still find the tracks.
+     * @param {string} identifier The query or URL
+     * @param {string} source The source (platform) used for searching
+     * @param {LoadTrackResult} result The result to cache
+     * @returns {SearchCache} The cache
+     */
+    public set(identifier: string, source: string, result: LoadTrackResult): this {
+        if (result.loadType === "error" || result.loadType === "empty" || this.maxEntries <= 0) return this;
+
+        const key = SearchCache.key(identifier, source);
+
+        this.entries.delete(key);
+        this.entries.set(key, { result: structuredClone(result), expiresAt: Date.now() + this.ttl });
+
+        for (const oldestKey of this.entries.keys()) {
+            if (this.entries.size <= this.maxEntries) break;
+            this.entries.delete(oldestKey);
+        };
+
+        return this;
+    };
+
+    /**
+     * Removes a cached result.
+     * @param {string} identifier The query or URL
+     * @param {string} source The source (platform) used for searching
+     * @returns {boolean} Whether the result was cached
+     */
+    public delete(identifier: string, source: string): boolean {
+        return this.entries.delete(SearchCache.key(identifier, source));
+    };
+
+    /**
+     * Gets the keys of every cached result that has not expired yet, from the least to the most recently used.
+     * @returns {string[]} The keys
+     */
+    public keys(): string[] {
+        const now = Date.now();
+
+        return [...this.entries].filter(([, entry]) => entry.expiresAt > now).map(([key]) => key);
+    };
+
+    /**
+     * Clears every cached result and resets the statistics.
+     */
+    public clear(): void {
+        this.entries.clear();
+        this.hits = 0;
+        this.misses = 0;
+    };
+
+    /**
+     * Builds the key of a query. Search queries are case insensitive, URLs are not.
+     * @param {string} identifier The query or URL
+     * @param {string} source The source (platform) used for searching
+     * @returns {string} The key
+     */
+    public static key(identifier: string, source: string): string {
+        const query = identifier.trim();
+        if (/^https?:\/\//.test(query)) return `url:${query}`;
+
+        return `${source.toLowerCase()}:${query.toLowerCase().replace(/\s+/g, " ")}`;
+    };
+};
@@ -0,0 +1,68 @@
+import { JsonFile } from "./JsonFile";
+
+// Types
+import { SessionStore } from "@t/utils/sessionStore";
+
+/**
+ * Keeps the session ids in memory. This only survives reconnects, not restarts of the bot process.
+ */
+export class MemorySessionStore implements SessionStore {
+    protected readonly sessions = new Map<string, string>();
+
+    public get(nodeName: string): string | null {
+        return this.sessions.get(nodeName) ?? null;
+    };
+
+    public set(nodeName: string, sessionId: string): void {
+        this.sessions.set(nodeName, sessionId);
+    };
+
+    public delete(nodeName: string): void {
+        this.sessions.delete(nodeName);
+    };
+};
+
+/**
+ * Keeps the session ids in a JSON file, so sessions can be resumed after the bot process restarted.
+ */
+export class FileSessionStore implements SessionStore {
+    protected readonly file: JsonFile<string>;
+
+    /**
+     * @param {string} path The path of the JSON file. It is created on the first write.
+     */
+    public constructor(path: string) {
+        this.file = new JsonFile(path);
+    };
+
+    /**
+     * The path of the JSON file
+     * @type {string}
+     */
+    public get path(): string {
+        return this.file.path;
+    };
+
+    public async get(nodeName: string): Promise<string | null> {
+        const sessions = await this.file.read();
+
+        return sessions[nodeName] ?? null;
+    };
+
+    public async set(nodeName: string, sessionId: string): Promise<void> {
+        const sessions = await this.file.read();
+        sessions[nodeName] = sessionId;
+
+        await this.file.write();
+    };
+
+    public async delete(nodeName: string): Promise<void> {
+        const sessions = await this.file.read();
+        if (!(nodeName in sessions)) return;
+
+        // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+        delete sessions[nodeName];
+
+        await this.file.write();
+    };
+};
@@ -1,9 +1,12 @@
 import { defaultOptions } from "@/constants/node";
+import { searchPrefixSources, urlHostSources } from "@/constants/sources";
 
 import { HarmonyLinkConfiguration } from "@t/HarmonyLink";
 import { NodeType, NodeGroup, NodeOptions } from "@t/node";
 
 export function parseOptions(options: NodeGroup, harmonyLinkOptions: Omit<HarmonyLinkConfiguration, "defaultPlatform" | "nodes"> & { defaultPlatform: string; nodes?: NodeGroup[] | undefined; }): Required<NodeOptions> {
+    const nodeOptions = defaultOptions(harmonyLinkOptions);
+
     return {
         name: options.name,
         host: options.host,
@@ -11,10 +14,39 @@ export function parseOptions(options: NodeGroup, harmonyLinkOptions: Omit<Harmon
         password: options.password ?? "youshallnotpass",
         secure: options.secure ?? false,
         type: options.type ?? NodeType.LavaLinkV4,
-        ...defaultOptions(harmonyLinkOptions)
+        regions: (options.regions ?? []).map(region => region.toLowerCase()),
+        ...nodeOptions,
+        requestTimeout: options.requestTimeout ?? nodeOptions.requestTimeout,
+        requestRetries: options.requestRetries ?? nodeOptions.requestRetries,
+        interceptors: options.interceptors ?? [],
+        transport: {
+            ...harmonyLinkOptions.transport,
+            ...options.transport,
+            headers: { ...harmonyLinkOptions.transport?.headers, ...options.transport?.headers },
+            tls: { ...harmonyLinkOptions.transport?.tls, ...options.transport?.tls }
+        }
     } satisfies Required<NodeGroup>
 };
 
+/**
+ * Gets the name of the source manager needed to resolve a query
+ * @param {string} query The query to resolve
+ * @param {string} source The search prefix used for queries that are not URLs
+ * @returns {string | null} The name of the source manager, or null if it is unknown
+ */
+export function getSourceManager(query: string, source: string): string | null {
+    if (!/^https?:\/\//.test(query)) return searchPrefixSources[source.toLowerCase()] ?? null;
+
+    try {
+        const host = new URL(query).hostname.toLowerCase();
+        const matchedHost = Object.keys(urlHostSources).find(sourceHost => host === sourceHost || host.endsWith(`.${sourceHost}`));
+
+        return matchedHost ? urlHostSources[matchedHost] : "http";
+    } catch {
+        return null;
+    };
+};
+
 export function snakeToCamel<T>(obj: Record<string, any>): Record<string, unknown> | T  {
     if (typeof obj !== 'object') return {};
     if (JSON.stringify(obj) === '{}') return {};
@@ -0,0 +1,101 @@
+import http from "http";
+import https from "https";
+import zlib from "zlib";
+
+import { defaultConnectionPoolOptions } from "@/constants/node";
+import { ConnectionPoolOptions, NodeTLSOptions } from "@t/node/transport";
+
+// The pooled fetch has to decompress the bodies on its own, as fetch does
+const decompressors: Record<string, (() => NodeJS.ReadWriteStream) | undefined> = {
+    br: zlib.createBrotliDecompress,
+    gzip: zlib.createGunzip,
+    deflate: zlib.createInflate
+};
+
+/**
+ * Converts the body of a request to the data that is written to the connection
+ * @param {RequestInit["body"]} [body] The body
+ * @returns {Uint8Array | string | undefined} The data, or undefined if the request has no body
+ */
+function toRequestBody(body?: RequestInit["body"]): Uint8Array | string | undefined {
+    if (body === null || body === undefined) return undefined;
+    if (typeof body === "string" || body instanceof Uint8Array) return body;
+    if (body instanceof ArrayBuffer) return new Uint8Array(body);
+    if (ArrayBuffer.isView(body)) return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+    if (body instanceof URLSearchParams) return body.toString();
+
+    // Streams, blobs and form data would need their length and content type, so they are not sent at all.
+    throw new TypeError(`[HarmonyLink] [Pooled Fetch] Unsupported request body of type ${body.constructor.name}. Use a string or binary data, or a custom fetch.`);
+};
+
+/**
+ * A fetch that sends the request over the keep-alive connections of an agent.
+ * Only the method, headers, body and signal of the options are used. The body has to be a string, binary data or URLSearchParams.
+ * @param {http.Agent | null} agent The agent, or null to use a new connection
+ * @param {URL} url The URL to send the request to
+ * @param {RequestInit} init The options of the request
+ * @returns {Promise<Response>} The response
+ */
+export async function pooledFetch(agent: http.Agent | null, url: URL, init: RequestInit): Promise<Response> {
+    init.signal?.throwIfAborted();
+
+    const body = toRequestBody(init.body);
+    const headers = Object.fromEntries(new Headers(init.headers));
+    if (body) headers["content-length"] = String(Buffer.byteLength(body));
+
+    return new Promise<Response>((resolve, reject) => {
+        // Errors are thrown like fetch does, so they are handled the same way as the errors of a custom fetch.
+        const fail = (err: Error): void => reject(init.signal?.aborted ? init.signal.reason : new TypeError("fetch failed", { cause: err }));
+
+        const req = (url.protocol === "https:" ? https : http).request(url, {
+            method: init.method ?? "GET",
+            headers,
+            agent: agent ?? undefined,
+            signal: init.signal ?? undefined
+        }, (res) => {
+            const decompressor = decompressors[res.headers["content-encoding"] ?? ""];
+            const stream = decompressor ? res.pipe(decompressor()) : res;
+            const chunks: Buffer[] = [];
+
+            stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+            stream.on("error", fail);
+            res.on("error", fail);
+
+            stream.on("end", () => {
+                const responseHeaders = new Headers();
+                for (let i = 0; i < res.rawHeaders.length; i += 2) responseHeaders.append(res.rawHeaders[i], res.rawHeaders[i + 1]);
+
+                const status = res.statusCode ?? 500;
+
+                resolve(new Response(status === 204 || status === 304 ? null : Buffer.concat(chunks), {
+                    status,
+                    statusText: res.statusMessage,
+                    headers: responseHeaders
+                }));
+            });
+        });
+
+        req.on("error", fail);
+        req.end(body ?? undefined);
+    });
+};
+
+/**
+ * Creates the keep-alive agent of a node
+ * @param {boolean} secure Whether the node uses HTTPS
+ * @param {ConnectionPoolOptions} [options] The options of the connection pool
+ * @param {NodeTLSOptions} [tls] The TLS options, only used for secure nodes
+ * @returns {http.Agent} The agent
+ */
+export function createPoolAgent(secure: boolean, options: ConnectionPoolOptions = {}, tls: NodeTLSOptions = {}): http.Agent {
+    const agentOptions: http.AgentOptions = {
+        keepAlive: true,
+        maxSockets: options.maxSockets ?? defaultConnectionPoolOptions.maxSockets,
+        maxFreeSockets: options.maxFreeSockets ?? defaultConnectionPoolOptions.maxFreeSockets,
+        timeout: options.keepAliveTimeout ?? defaultConnectionPoolOptions.keepAliveTimeout,
+        // Reusing the most recently used connection lets the others time out when there is not much traffic.
+        scheduling: "lifo"
+    };
+
+    return secure ? new https.Agent({ ...agentOptions, ...tls }) : new http.Agent(agentOptions);
+};
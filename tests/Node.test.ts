@@ -0,0 +1,111 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { once } from "events";
+import { WebSocket, WebSocketServer } from "ws";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { NodeState } from "@t/node";
+
+import { addReadyNode, createManager, jsonResponse } from "./helpers";
+
+describe("the node states", () => {
+    it("follows the allowed transitions and reports every change", () => {
+        const manager = createManager();
+        const changes: string[] = [];
+        manager.on("nodeStateChange", (_node, oldState, newState) => changes.push(`${oldState}>${newState}`));
+
+        const node = addReadyNode(manager);
+
+        expect(node.isReady).toBe(true);
+        expect(changes).toEqual([`${NodeState.IDLE}>${NodeState.CONNECTING}`, `${NodeState.CONNECTING}>${NodeState.CONNECTED}`, `${NodeState.CONNECTED}>${NodeState.READY}`]);
+    });
+
+    it("ignores transitions that are not allowed", () => {
+        const manager = createManager();
+        const node = addReadyNode(manager);
+
+        expect(node.setState(NodeState.CONNECTING)).toBe(false);
+        expect(node.state).toBe(NodeState.READY);
+
+        node.setState(NodeState.DESTROYED);
+
+        expect(node.setState(NodeState.CONNECTING)).toBe(false);
+        expect(node.state).toBe(NodeState.DESTROYED);
+    });
+
+    it("is not picked for new players unless it is ready", async () => {
+        const manager = createManager();
+        const node = addReadyNode(manager);
+
+        await expect(manager.nodeManager.getLeastUsedNode()).resolves.toBe(node);
+
+        node.setState(NodeState.DISCONNECTED);
+
+        await expect(manager.nodeManager.getLeastUsedNode()).rejects.toThrow("No nodes are ready");
+    });
+});
+
+describe("a node connected to a Lavalink server", () => {
+    let server: http.Server;
+    let sockets: WebSocketServer;
+
+    /**
+     * Starts a server that answers like Lavalink does
+     * @returns {Promise<number>} The port of the server
+     */
+    async function startServer(): Promise<number> {
+        server = http.createServer((req, res) => {
+            const answer = req.url === "/v4/info" ? jsonResponse({ sourceManagers: ["youtube"], filters: ["volume"], plugins: [] }) : new Response(null, { status: 404 });
+
+            res.writeHead(answer.status, Object.fromEntries(answer.headers));
+            void answer.text().then(body => res.end(body));
+        });
+
+        sockets = new WebSocketServer({ server, path: "/v4/websocket" });
+        sockets.on("connection", socket => socket.send(JSON.stringify({ op: "ready", resumed: false, sessionId: "session" })));
+
+        server.listen(0, "127.0.0.1");
+        await once(server, "listening");
+
+        return (server.address() as AddressInfo).port;
+    }
+
+    afterEach(() => {
+        for (const socket of sockets.clients) socket.terminate();
+        sockets.close();
+        server.close();
+    });
+
+    it("reaches the ready state with the info of the node", async () => {
+        const port = await startServer();
+        const manager = createManager();
+
+        const node = await manager.nodeManager.addNode({ name: "lavalink", host: "127.0.0.1", port });
+        await new Promise<void>(resolve => manager.on("nodeStateChange", (_node, _oldState, newState) => newState === NodeState.READY && resolve()));
+
+        expect(node.isReady).toBe(true);
+        expect(node.info?.sourceManagers).toEqual(["youtube"]);
+        expect(node.rest.isReady).toBe(true);
+
+        await node.destroy();
+    });
+
+    it("reports the disconnect once with the close code of the node and schedules a reconnect", async () => {
+        const port = await startServer();
+        const manager = createManager({ reconnectTimeout: 60_000 });
+        const disconnects: number[] = [];
+        manager.on("nodeDisconnect", (_node, code) => disconnects.push(code));
+
+        const node = await manager.nodeManager.addNode({ name: "lavalink", host: "127.0.0.1", port });
+        await new Promise<void>(resolve => manager.on("nodeStateChange", (_node, _oldState, newState) => newState === NodeState.READY && resolve()));
+
+        const [socket] = sockets.clients as Set<WebSocket>;
+        socket.close(4000, "Bye");
+        await new Promise<void>(resolve => manager.on("nodeStateChange", (_node, _oldState, newState) => newState === NodeState.RECONNECTING && resolve()));
+
+        expect(disconnects).toEqual([4000]);
+        expect(node.isReady).toBe(false);
+
+        await node.destroy();
+    });
+});
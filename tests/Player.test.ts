@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+
+import { NodeState } from "@t/node";
+
+import { addPlayer, addReadyNode, createFetch, createManager, createTrack, jsonResponse } from "./helpers";
+
+describe("moving a player to another node", () => {
+    it("creates the player on the new node before destroying it on the old one", async () => {
+        const manager = createManager();
+        const oldRequests = createFetch(() => new Response(null, { status: 204 }));
+        const oldNode = addReadyNode(manager, { name: "old", transport: { fetch: oldRequests.fetch } });
+        const target = createFetch(() => jsonResponse({}));
+        const newNode = addReadyNode(manager, { name: "new", transport: { fetch: target.fetch } });
+
+        const player = addPlayer(manager, oldNode);
+        player.volume = 50;
+
+        await player.moveNode(newNode);
+
+        expect(target.requests).toHaveLength(1);
+        expect(target.requests[0].method).toBe("PATCH");
+        expect(target.requests[0].body).toMatchObject({ voice: { endpoint: "us-east1.discord.media", token: "token", sessionId: "session" }, volume: 50 });
+        expect(oldRequests.requests.map(request => request.method)).toEqual(["DELETE"]);
+
+        expect(player.node).toBe(newNode);
+        expect(oldNode.players.has(player.guildId)).toBe(false);
+        expect(newNode.players.get(player.guildId)).toBe(player);
+    });
+
+    it("keeps the player on the old node when the new node rejects it", async () => {
+        const manager = createManager();
+        const oldRequests = createFetch(() => new Response(null, { status: 204 }));
+        const oldNode = addReadyNode(manager, { name: "old", transport: { fetch: oldRequests.fetch } });
+        const newNode = addReadyNode(manager, { name: "new", transport: { fetch: createFetch(() => jsonResponse({ message: "bad" }, { status: 400 })).fetch } });
+        const player = addPlayer(manager, oldNode);
+
+        await expect(player.moveNode(newNode)).rejects.toThrow();
+
+        expect(player.node).toBe(oldNode);
+        expect(oldNode.players.get(player.guildId)).toBe(player);
+        expect(oldRequests.requests).toHaveLength(0);
+    });
+
+    it("does not send a request to an old node that lost its connection", async () => {
+        const manager = createManager();
+        const oldRequests = createFetch(() => new Response(null, { status: 204 }));
+        const oldNode = addReadyNode(manager, { name: "old", transport: { fetch: oldRequests.fetch } });
+        const newNode = addReadyNode(manager, { name: "new", transport: { fetch: createFetch(() => jsonResponse({})).fetch } });
+        const player = addPlayer(manager, oldNode);
+
+        oldNode.setState(NodeState.DISCONNECTED);
+        await player.moveNode(newNode);
+
+        expect(player.node).toBe(newNode);
+        expect(oldRequests.requests).toHaveLength(0);
+    });
+});
+
+describe("failover", () => {
+    it("moves the players of a dead node to a healthy node", async () => {
+        const manager = createManager({ failover: true });
+        const deadNode = addReadyNode(manager, { name: "dead", transport: { fetch: createFetch(() => new Response(null, { status: 204 })).fetch } });
+        const healthyNode = addReadyNode(manager, { name: "healthy", transport: { fetch: createFetch(() => jsonResponse({})).fetch } });
+        const players = [addPlayer(manager, deadNode, "1"), addPlayer(manager, deadNode, "2")];
+
+        const failovers: string[] = [];
+        manager.on("playerFailover", (player, from, to) => failovers.push(`${player.guildId}:${from.options.name}>${to.options.name}`));
+
+        deadNode.setState(NodeState.DISCONNECTED);
+
+        await expect(manager.nodeManager.failover(deadNode)).resolves.toBe(2);
+        expect(players.every(player => player.node === healthyNode)).toBe(true);
+        expect(failovers).toEqual(["1:dead>healthy", "2:dead>healthy"]);
+    });
+
+    it("moves the players when the socket closes without resuming and schedules the reconnect", async () => {
+        const manager = createManager({ failover: true, reconnectTimeout: 60_000 });
+        const deadRequests = createFetch(() => new Response(null, { status: 204 }));
+        const deadNode = addReadyNode(manager, { name: "dead", transport: { fetch: deadRequests.fetch } });
+        const healthyNode = addReadyNode(manager, { name: "healthy", transport: { fetch: createFetch(() => jsonResponse({})).fetch } });
+        const player = addPlayer(manager, deadNode);
+
+        const moved = new Promise<void>(resolve => manager.on("playerFailover", () => resolve()));
+        deadNode.emit("lavalinkWSClose", 1006, Buffer.from(""));
+        await moved;
+
+        expect(player.node).toBe(healthyNode);
+        expect(deadNode.state).toBe(NodeState.RECONNECTING);
+        expect(deadRequests.requests).toHaveLength(0);
+
+        deadNode.cancelReconnect();
+    });
+});
+
+describe("the history", () => {
+    it("keeps a track that is replaced by play()", async () => {
+        const manager = createManager();
+        const node = addReadyNode(manager, { transport: { fetch: createFetch(() => jsonResponse({})).fetch } });
+        const player = addPlayer(manager, node);
+
+        player.queue.add(createTrack("first")).add(createTrack("second"));
+        await player.play();
+        await player.play();
+
+        expect(player.queue.currentTrack?.track).toBe("second");
+        expect(player.queue.history.map(track => track.track)).toEqual(["first"]);
+    });
+
+    it("does not add the replaced track to the history when going back", async () => {
+        const manager = createManager();
+        const node = addReadyNode(manager, { transport: { fetch: createFetch(() => jsonResponse({})).fetch } });
+        const player = addPlayer(manager, node);
+
+        player.queue.add(createTrack("first")).add(createTrack("second"));
+        await player.play();
+        await player.play();
+        await player.previous();
+
+        expect(player.queue.currentTrack?.track).toBe("first");
+        expect(player.queue.history).toHaveLength(0);
+        expect([...player.queue].map(track => track.track)).toEqual(["second"]);
+    });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+
+import { HarmonyLinkConnectionError, HarmonyLinkHTTPError, HarmonyLinkRestError, HarmonyLinkValidationError } from "@/errors/HarmonyLinkRestError";
+import { HarmonyLinkRequesterOptions } from "@t/node";
+
+import { RecordedRequest, addReadyNode, createFetch, createManager, jsonResponse } from "./helpers";
+
+/**
+ * Creates an error like undici throws it when the connection fails
+ * @param {string} code The code of the error of the connection
+ * @returns {TypeError} The error
+ */
+function fetchFailed(code: string): TypeError {
+    return new TypeError("fetch failed", { cause: Object.assign(new Error(code), { code }) });
+}
+
+/**
+ * Sends a request through a node whose fetch answers with the given handler
+ * @param {HarmonyLinkRequesterOptions} options The options of the request
+ * @param {(request: RecordedRequest) => Promise<Response> | Response} handler Answers the requests
+ * @returns {Promise<{ result: Promise<unknown>; requests: RecordedRequest[]; retries: number[] }>} The result and what has been sent
+ */
+function send(options: HarmonyLinkRequesterOptions, handler: (request: RecordedRequest) => Promise<Response> | Response): { result: Promise<unknown>; requests: RecordedRequest[]; retries: number[] } {
+    const { fetch, requests } = createFetch(handler);
+    const manager = createManager({ requestRetries: 2, transport: { fetch } });
+    const node = addReadyNode(manager);
+
+    const retries: number[] = [];
+    manager.on("requestRetry", (_node, _error, _attempt, delay) => retries.push(delay));
+
+    return { result: node.driver.request(options), requests, retries };
+}
+
+describe("the retry policy", () => {
+    it("retries GET requests on server errors with an exponential backoff", async () => {
+        const { result, requests, retries } = send({ method: "GET", path: "/info" }, () => (retries.length < 2 ? new Response(null, { status: 500 }) : jsonResponse({ ok: true })));
+
+        await expect(result).resolves.toEqual({ ok: true });
+        expect(requests).toHaveLength(3);
+        expect(retries).toEqual([1, 2]);
+    });
+
+    it("throws once the retries are used up", async () => {
+        const { result, requests } = send({ method: "GET", path: "/info" }, () => new Response(null, { status: 500 }));
+
+        await expect(result).rejects.toBeInstanceOf(HarmonyLinkHTTPError);
+        expect(requests).toHaveLength(3);
+    });
+
+    it("does not retry client errors", async () => {
+        const { result, requests } = send({ method: "GET", path: "/info" }, () => jsonResponse({ message: "bad" }, { status: 400 }));
+
+        await expect(result).rejects.toBeInstanceOf(HarmonyLinkValidationError);
+        expect(requests).toHaveLength(1);
+    });
+
+    it("does not retry non-idempotent requests on server errors", async () => {
+        const { result, requests } = send({ method: "PATCH", path: "/sessions/node-session/players/1", data: {} }, () => new Response(null, { status: 500 }));
+
+        await expect(result).rejects.toBeInstanceOf(HarmonyLinkHTTPError);
+        expect(requests).toHaveLength(1);
+    });
+
+    it("retries non-idempotent requests that opted in", async () => {
+        const { result, requests } = send({ method: "PATCH", path: "/sessions/node-session/players/1", data: {}, idempotent: true }, () => new Response(null, { status: 500 }));
+
+        await expect(result).rejects.toBeInstanceOf(HarmonyLinkHTTPError);
+        expect(requests).toHaveLength(3);
+    });
+
+    it("does not retry non-idempotent requests when the connection was reset", async () => {
+        const { result, requests } = send({ method: "PATCH", path: "/sessions/node-session/players/1", data: {} }, () => {
+            throw fetchFailed("ECONNRESET");
+        });
+
+        await expect(result).rejects.toBeInstanceOf(HarmonyLinkConnectionError);
+        expect(requests).toHaveLength(1);
+    });
+
+    it.each([
+        ["wrapped like undici does", fetchFailed("ECONNREFUSED")],
+        ["thrown directly", Object.assign(new Error("connect ECONNREFUSED"), { code: "ECONNREFUSED" })],
+        ["wrapped twice", new Error("failed", { cause: fetchFailed("ENOTFOUND") })]
+    ])("retries non-idempotent requests when the node could not be reached, with the error %s", async (_name, error) => {
+        const { result, requests } = send({ method: "DELETE", path: "/sessions/node-session/players/1" }, () => {
+            if (requests.length === 1) throw error;
+            return new Response(null, { status: 204 });
+        });
+
+        await expect(result).resolves.toBeUndefined();
+        expect(requests).toHaveLength(2);
+    });
+
+    it("retries every request on 429, waiting as long as the node asks", async () => {
+        const { result, requests, retries } = send({ method: "PATCH", path: "/sessions/node-session/players/1", data: {} }, () => (requests.length === 1 ? new Response(null, { status: 429, headers: { "retry-after": "0.02" } }) : jsonResponse({})));
+
+        await expect(result).resolves.toEqual({});
+        expect(requests).toHaveLength(2);
+        expect(retries).toEqual([20]);
+    });
+
+    it("does not wait longer than 30 seconds for a retry", async () => {
+        const { result, requests } = send({ method: "GET", path: "/info" }, () => new Response(null, { status: 503, headers: { "retry-after": "60" } }));
+
+        await expect(result).rejects.toBeInstanceOf(HarmonyLinkHTTPError);
+        expect(requests).toHaveLength(1);
+    });
+});
+
+describe("the interceptors", () => {
+    it("cancels the request with a HarmonyLinkRestError when beforeRequest throws", async () => {
+        const { fetch, requests } = createFetch(() => jsonResponse({}));
+        const cause = new Error("nope");
+        const manager = createManager({ transport: { fetch }, interceptors: [{ beforeRequest: () => { throw cause; } }] });
+        const node = addReadyNode(manager);
+
+        const error: unknown = await node.driver.request({ method: "GET", path: "/info" }).catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(HarmonyLinkRestError);
+        expect((error as HarmonyLinkRestError).cause).toBe(cause);
+        expect(requests).toHaveLength(0);
+    });
+
+    it("passes the parsed body and the attempts to afterResponse", async () => {
+        const { fetch } = createFetch(() => jsonResponse({ version: "4" }));
+        const contexts: unknown[] = [];
+        const manager = createManager({ transport: { fetch }, interceptors: [{ afterResponse: context => void contexts.push([context.status, context.attempts, context.body]) }] });
+        const node = addReadyNode(manager);
+
+        await expect(node.driver.request({ method: "GET", path: "/info" })).resolves.toEqual({ version: "4" });
+        expect(contexts).toEqual([[200, 1, { version: "4" }]]);
+    });
+
+    it("passes only the options of fetch to a custom fetch", async () => {
+        const inits: RequestInit[] = [];
+        const manager = createManager({ transport: { fetch: async (_url, init) => { inits.push(init); return Promise.resolve(jsonResponse({})); } } });
+        const node = addReadyNode(manager);
+
+        await node.driver.request({ method: "GET", path: "/info", retries: 0, timeout: 1000 });
+
+        expect(Object.keys(inits[0]).sort()).toEqual(["body", "headers", "method", "signal"]);
+    });
+});
@@ -0,0 +1,138 @@
+import EventEmitter from "events";
+
+import { HarmonyLink } from "@/HarmonyLink";
+import AbstractLibraryClass from "@/librarys/AbstractLibraryClass";
+import { Node } from "@/node/Node";
+import { Player } from "@/player/Player";
+import { Track } from "@/player/Track";
+import { HarmonyLinkConfiguration } from "@t/HarmonyLink";
+import { NodeGroup, NodeState } from "@t/node";
+import { NodeFetch } from "@t/node/transport";
+
+/**
+ * A library without a Discord client, which records the packets it would send to the gateway
+ */
+export class TestLibrary extends AbstractLibraryClass {
+    public readonly packets: unknown[] = [];
+
+    public constructor() {
+        super(new EventEmitter());
+    };
+
+    // eslint-disable-next-line class-methods-use-this
+    public get userID(): string {
+        return "1";
+    };
+
+    // eslint-disable-next-line class-methods-use-this
+    public shardID(): number {
+        return 0;
+    };
+
+    public sendPacket(_shardId: number, payload: unknown): void {
+        this.packets.push(payload);
+    };
+
+    // eslint-disable-next-line class-methods-use-this
+    public listen(): void {};
+};
+
+/**
+ * A request that reached a fetch of the transport options
+ */
+export interface RecordedRequest {
+    method: string;
+    url: URL;
+    body: unknown;
+};
+
+/**
+ * Creates a manager that is ready, as if the Discord client logged in
+ * @param {Partial<HarmonyLinkConfiguration>} [options] The options of the manager
+ * @returns {HarmonyLink} The manager
+ */
+export function createManager(options: Partial<HarmonyLinkConfiguration> = {}): HarmonyLink {
+    const manager = new HarmonyLink({ library: new TestLibrary(), nodes: [], requestRetryDelay: 1, ...options });
+
+    manager.botID = "1";
+    manager.isReady = true;
+
+    return manager;
+};
+
+/**
+ * Creates a JSON response like a node sends it
+ * @param {unknown} body The body
+ * @param {ResponseInit} [init] The status and headers of the response
+ * @returns {Response} The response
+ */
+export function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+    return new Response(JSON.stringify(body), { ...init, headers: { "content-type": "application/json", ...init.headers } });
+};
+
+/**
+ * Creates a fetch that records the requests and answers them with the handler
+ * @param {(request: RecordedRequest) => Promise<Response> | Response} handler Answers a request
+ * @returns {{ fetch: NodeFetch; requests: RecordedRequest[] }} The fetch and the requests it received
+ */
+export function createFetch(handler: (request: RecordedRequest) => Promise<Response> | Response): { fetch: NodeFetch; requests: RecordedRequest[] } {
+    const requests: RecordedRequest[] = [];
+
+    const fetch: NodeFetch = async (url, init) => {
+        const request = { method: init.method ?? "GET", url, body: typeof init.body === "string" ? JSON.parse(init.body) : undefined };
+        requests.push(request);
+
+        return handler(request);
+    };
+
+    return { fetch, requests };
+};
+
+/**
+ * Adds a node to the manager without connecting it, and moves it to the ready state
+ * @param {HarmonyLink} manager The manager
+ * @param {Partial<NodeGroup>} [options] The options of the node
+ * @returns {Node} The node
+ */
+export function addReadyNode(manager: HarmonyLink, options: Partial<NodeGroup> = {}): Node {
+    const node = new Node(manager, { name: "node", host: "127.0.0.1", ...options });
+    manager.nodeManager.set(node.options.name, node);
+
+    node.setState(NodeState.CONNECTING);
+    node.setState(NodeState.CONNECTED);
+    node.setState(NodeState.READY);
+    node.setSessionId(`${node.options.name}-session`);
+
+    return node;
+};
+
+/**
+ * Creates a player on a node with a complete voice connection, without asking the node
+ * @param {HarmonyLink} manager The manager
+ * @param {Node} node The node of the player
+ * @param {string} [guildId="1"] The guild of the player
+ * @returns {Player} The player
+ */
+export function addPlayer(manager: HarmonyLink, node: Node, guildId: string = "1"): Player {
+    const player = new Player(manager, node, { guildId, voiceId: "2", textId: "3", mute: false, deaf: false });
+    Object.assign(player.ConnectionHandler.options.voice, { endpoint: "us-east1.discord.media", token: "token", sessionId: "session" });
+
+    manager.playerManager.set(guildId, player);
+    node.players.set(guildId, player);
+
+    return player;
+};
+
+/**
+ * Creates a resolved track
+ * @param {string} id The identifier of the track, also used as its encoded data
+ * @returns {Track} The track
+ */
+export function createTrack(id: string): Track {
+    return new Track({
+        encoded: id,
+        info: { identifier: id, isSeekable: true, author: "author", length: 180_000, isStream: false, position: 0, title: id, uri: null, artworkUrl: null, isrc: null, sourceName: "youtube" },
+        pluginInfo: {},
+        userData: {}
+    });
+};